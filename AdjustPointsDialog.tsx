@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from "react";
+import { Kid } from "./types";
+
+type Props = {
+  /** Kid being adjusted; the dialog is closed when null */
+  kid: Kid | null;
+  /** Current derived balance, shown for context */
+  balance: number;
+  /** Called with a signed delta and a non-empty reason */
+  onSubmit: (delta: number, reason: string) => void;
+  onClose: () => void;
+};
+
+const PRESETS: { label: string; sign: 1 | -1 }[] = [
+  { label: "Extra help", sign: 1 },
+  { label: "Kindness", sign: 1 },
+  { label: "Great effort", sign: 1 },
+  { label: "Attitude", sign: -1 },
+  { label: "Not listening", sign: -1 },
+  { label: "Chore redo", sign: -1 },
+];
+
+export default function AdjustPointsDialog({ kid, balance, onSubmit, onClose }: Props) {
+  const [sign, setSign] = useState<1 | -1>(1);
+  const [amount, setAmount] = useState("5");
+  const [reason, setReason] = useState("");
+
+  // fresh form each time it opens
+  useEffect(() => {
+    if (!kid) return;
+    setSign(1);
+    setAmount("5");
+    setReason("");
+  }, [kid]);
+
+  // Escape to close
+  useEffect(() => {
+    if (!kid) return;
+    const onEsc = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onEsc);
+    return () => window.removeEventListener("keydown", onEsc);
+  }, [kid, onClose]);
+
+  if (!kid) return null;
+
+  const n = Math.floor(Number(amount));
+  const valid = n > 0 && reason.trim().length > 0;
+
+  const submit = () => {
+    if (!valid) return;
+    onSubmit(sign * n, reason.trim());
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" aria-label={`Adjust points for ${kid.name}`} style={styles.backdrop}>
+      <div className="card" style={styles.card}>
+        <div className="row space">
+          <h3 style={{ margin: 0 }}>Adjust points · {kid.name}</h3>
+          <span className="muted small">Balance: {balance}</span>
+        </div>
+
+        <div className="row" style={{ margin: "12px 0" }}>
+          <button className={sign === 1 ? "pill" : "pill secondary"} onClick={() => setSign(1)}>+ Add</button>
+          <button className={sign === -1 ? "pill negative" : "pill secondary"} onClick={() => setSign(-1)}>− Deduct</button>
+          <input
+            type="number" min={1} style={{ width: 80 }} aria-label="Points"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+          />
+          <span>points</span>
+        </div>
+
+        <div className="row" style={{ flexWrap: "wrap", gap: ".4rem", marginBottom: 8 }}>
+          {PRESETS.map(p => (
+            <button
+              key={p.label}
+              className={p.sign > 0 ? "pill" : "pill negative"}
+              onClick={() => { setReason(p.label); setSign(p.sign); }}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        <input
+          style={{ width: "100%" }}
+          placeholder="Reason (required)"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          onKeyDown={e => e.key === "Enter" && submit()}
+        />
+
+        <div className="row" style={{ justifyContent: "flex-end", marginTop: 12 }}>
+          <button className="secondary" onClick={onClose}>Cancel</button>
+          <button disabled={!valid} onClick={submit}>
+            {valid ? `${sign > 0 ? "Add" : "Deduct"} ${n}` : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    background: "rgba(0,0,0,.35)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 9999,
+  },
+  card: {
+    width: "min(480px, 92vw)",
+    boxShadow: "0 10px 30px rgba(0,0,0,.2)",
+  },
+};
@@ -1,94 +1,247 @@
-declare const require: any;
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useReducer, useRef } from 'react';
 
 // Your existing views (unchanged)
 import BoardView from './BoardView';
+import CalendarView from './CalendarView';
 import Reports from './Reports';
 
 // Avatar picker you added
 import AvatarPicker from './AvatarPicker';
+import AdjustPointsDialog from './AdjustPointsDialog';
+import ApprovalsQueue, { pendingCount } from './ApprovalsQueue';
+import ChoreEditor from './ChoreEditor';
+import RewardsManager from './RewardsManager';
+import GoalsManager from './GoalsManager';
+import StreakRulesEditor from './StreakRulesEditor';
+import PinDialog from './PinDialog';
+import BackupPanel from './BackupPanel';
+import PrintChart from './PrintChart';
+import SyncPanel from './SyncPanel';
+import AuditLog from './AuditLog';
+
+// Versioned load/save; older storage keys are migrated on first load.
+import { StorageAdapter, emptyState, localStorageAdapter } from './storage';
+import { createIndexedDbStorage } from './indexedDbStorage';
+import {
+  Actor, AdjustmentLog, Chore, CompletionStatus, Goal, JarEntry, Jars, Kid, LateRule, PayoutPeriod, Reward, Settings, State, StreakRule
+} from './types';
+import {
+  isActive, isLate, kidBalance, kidSplit, latePoints, payoutJars, pointsToDollars, recheck, redeemBlocker, rotationAssignee,
+  stepResult, stepsDone, toISO, uid
+} from './utils';
+import { hashPin, verifyPin } from './pin';
+import { takeDailySnapshot } from './backup';
+import { SyncEnvelope, SyncOp, acceptOps, addsSyncedRecords, diffOps, recordOp, syncNow, syncStatus } from './sync';
+import { Action, Step, historyReducer } from './reducer';
+import { missedPenalties } from './missed';
+
+const storage: StorageAdapter =
+  typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : localStorageAdapter;
+
+// When a history action happens and the id of the audit entry it writes
+const stamped = () => ({ atMs: Date.now(), auditId: uid() });
 
-// Try to use your existing storage helpers if present.
-// If not, we fall back to localStorage so this file still works drop-in.
-let storage: any = null;
-try {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  storage = require('./storage');
-} catch (_) {
-  storage = null;
-}
+// ------------ App ------------
+export default function App() {
+  // tabs: 'board' | 'calendar' | 'manage' | 'reports' | 'settings', plus the
+  // 'print' view opened from the Board
+  const [tab, setTab] = useState<'board' | 'calendar' | 'manage' | 'reports' | 'settings' | 'print'>('board');
+
+  // date shown on the Board (the Calendar can jump to a day)
+  const [boardDateISO, setBoardDateISO] = useState(() => toISO(new Date()));
+
+  // app state (empty until the storage backend has loaded), with undo history;
+  // every change goes through dispatch(), see reducer.ts
+  const [history, dispatchHistory] = useReducer(historyReducer, undefined, () => ({
+    state: emptyState(),
+    past: [],
+    future: [],
+  }));
+  const state = history.state;
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null); // nothing is saved while set
+  const savedRef = useRef<State | null>(null); // last state written, for incremental saves
+  const saveSeq = useRef(0); // only the newest save's success moves savedRef
 
-type KidLike = {
-  id: string;
-  name: string;
-  emoji?: string;
-  avatar?: string; // NEW: we’ll save avatar strings here
-  points?: number;
-};
-
-type StateLike = {
-  kids: KidLike[];
-  chores: any[];
-  completions: any[];
-  adjustments?: any[];
-  bonuses?: any[];
-  settings?: any;
-};
-
-// ------------ Helpers ------------
-const LS_KEY = 'loop-state';
-
-function loadState(): StateLike {
-  if (storage?.load) return storage.load();
-  const raw = localStorage.getItem(LS_KEY);
-  if (!raw) {
-    return {
-      kids: [],
-      chores: [],
-      completions: [],
-      adjustments: [],
-      bonuses: [],
-      settings: { hideCompletedOnBoard: false },
-    };
+  useEffect(() => {
+    storage
+      .load()
+      .then((s) => {
+        savedRef.current = s;
+        dispatchHistory({ type: 'load', state: s });
+        setLoaded(true);
+        snapshot(s);
+      })
+      .catch((err) => setLoadError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  // persist on change; the first save of each day also becomes a snapshot.
+  // savedRef only advances once a write lands, so after a failed one the
+  // next save writes everything since the last good one.
+  useEffect(() => {
+    if (!loaded || savedRef.current === state) return;
+    const prev = savedRef.current;
+    const seq = ++saveSeq.current;
+    storage
+      .save(prev, state)
+      .then(() => {
+        if (seq === saveSeq.current) savedRef.current = state;
+      })
+      .catch((err) => console.error('Save failed', err));
+    snapshot(state);
+  }, [state, loaded]);
+
+  function snapshot(s: State) {
+    takeDailySnapshot(storage, s, s.settings.snapshotDays).catch((err) => console.warn('Snapshot failed', err));
+  }
+
+  // ---------------- Sync ----------------
+  // Synced mutations go through the op log; queued ops are pushed (and other
+  // devices' ops pulled) every 30s and whenever the browser comes back online.
+  function dispatchOp(...ops: SyncOp[]) {
+    if (ops.length) dispatch({ type: 'sync', envs: ops.map(recordOp), todayISO: toISO(new Date()) });
+  }
+
+  function handleRemoteOps(remote: SyncEnvelope[]) {
+    const envs = acceptOps(remote);
+    if (envs.length) dispatchHistory({ type: 'remote', envs, ...stamped() });
   }
-  try {
-    return JSON.parse(raw);
-  } catch {
-    return {
-      kids: [],
-      chores: [],
-      completions: [],
-      adjustments: [],
-      bonuses: [],
-      settings: { hideCompletedOnBoard: false },
+
+  useEffect(() => {
+    if (!loaded) return;
+    const run = () =>
+      syncNow()
+        .then(handleRemoteOps)
+        .catch((err) => console.warn('Sync failed', err));
+    run();
+    const timer = window.setInterval(run, 30_000);
+    window.addEventListener('online', run);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', run);
     };
+  }, [loaded]);
+
+  // ---------------- Missed-chore penalties ----------------
+  // Charged for finished days on load and then hourly, so a day is settled
+  // soon after midnight while the app is open. Days are settled even with
+  // the penalty off, so turning it on never charges for them.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  useEffect(() => {
+    if (!loaded) return;
+    const run = () => {
+      const todayISO = toISO(new Date());
+      const due = missedPenalties(stateRef.current, todayISO);
+      if (due.length) {
+        const envs = due.map((adjustment) => recordOp({ type: 'adjust', adjustment }));
+        dispatchHistory({ type: 'auto', envs, ...stamped() });
+      }
+      dispatchHistory({ type: 'settleMissed', todayISO });
+    };
+    run();
+    const timer = window.setInterval(run, 60 * 60_000);
+    return () => window.clearInterval(timer);
+  }, [loaded, state.settings.missedPenalty]);
+
+  // ---------------- Parent lock ----------------
+  // Without a PIN everyone is a parent; with one, the app starts in kid mode.
+  const [unlocked, setUnlocked] = useState(false);
+  const [pinMode, setPinMode] = useState<'unlock' | 'set' | null>(null);
+  const parentMode = !state.settings.parentPin || unlocked;
+  const actor: Actor = parentMode ? 'parent' : 'kid';
+
+  // ---------------- Actions + undo/redo ----------------
+  function dispatch(action: Action) {
+    dispatchHistory({ type: 'do', action, actor, ...stamped() });
   }
-}
 
-function saveState(s: StateLike) {
-  if (storage?.save) {
-    storage.save(s);
-  } else {
-    localStorage.setItem(LS_KEY, JSON.stringify(s));
+  const updateSettings = (settings: Partial<Settings>) => dispatch({ type: 'updateSettings', settings });
+
+  // kid mode can only take back kid-mode changes. While syncing, a step
+  // that added points, a payout, jar money, a kid or a redemption can't be
+  // undone: the other devices already have it and would keep it.
+  const undoStep = history.past[history.past.length - 1];
+  const redoStep = history.future[0];
+  const undoSynced = !!undoStep && !!syncStatus().serverUrl && addsSyncedRecords(undoStep.before, undoStep.after);
+  const canUndo = !!undoStep && !undoSynced && (parentMode || undoStep.actor === 'kid');
+  const canRedo = !!redoStep && (parentMode || redoStep.actor === 'kid');
+
+  function handleUndo() {
+    if (!canUndo) return;
+    const envs = diffOps(state, undoStep.before).map(recordOp);
+    dispatchHistory({ type: 'undo', actor, envs, ...stamped() });
   }
-}
 
-function uid() {
-  return Math.random().toString(36).slice(2, 9);
-}
+  function handleRedo() {
+    if (!canRedo) return;
+    const envs = diffOps(state, redoStep.after).map(recordOp);
+    dispatchHistory({ type: 'redo', actor, envs, ...stamped() });
+  }
 
-// ------------ App ------------
-export default function App() {
-  // tabs: 'board' | 'calendar' | 'manage' | 'reports'
-  const [tab, setTab] = useState<'board' | 'calendar' | 'manage' | 'reports'>('board');
+  const stepSummary = (step: Step) => state.audit.find((e) => e.id === step.auditId)?.summary ?? '';
 
-  // app state
-  const [state, setState] = useState<StateLike>(() => loadState());
+  // Ctrl/⌘+Z, Ctrl/⌘+Shift+Z and Ctrl+Y; text fields keep their own undo
+  const undoRef = useRef({ handleUndo, handleRedo });
+  undoRef.current = { handleUndo, handleRedo };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(t.tagName))) return;
+      const k = e.key.toLowerCase();
+      if (k === 'z' && !e.shiftKey) undoRef.current.handleUndo();
+      else if ((k === 'z' && e.shiftKey) || k === 'y') undoRef.current.handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  // kid mode only has the Board
+  useEffect(() => {
+    if (!parentMode) setTab('board');
+  }, [parentMode]);
 
-  // persist on change
+  // relock after inactivity
   useEffect(() => {
-    saveState(state);
-  }, [state]);
+    if (!unlocked) return;
+    const ms = Math.max(1, state.settings.relockMinutes) * 60_000;
+    let timer = setTimeout(() => setUnlocked(false), ms);
+    const bump = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => setUnlocked(false), ms);
+    };
+    const events = ['pointerdown', 'keydown', 'scroll'] as const;
+    events.forEach((e) => window.addEventListener(e, bump, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      events.forEach((e) => window.removeEventListener(e, bump));
+    };
+  }, [unlocked, state.settings.relockMinutes]);
+
+  async function handlePinSubmit(pin: string) {
+    if (pinMode === 'set') {
+      updateSettings({ parentPin: await hashPin(pin) });
+      setUnlocked(true);
+    } else {
+      const stored = state.settings.parentPin;
+      if (stored && !(await verifyPin(pin, stored))) return false;
+      setUnlocked(true);
+    }
+    setPinMode(null);
+    return true;
+  }
+
+  function handleRemovePin() {
+    if (!window.confirm('Remove the parent PIN? Kids will be able to open every tab.')) return;
+    updateSettings({ parentPin: undefined });
+  }
+
+  const handleSetSnapshotDays = (snapshotDays: number) => updateSettings({ snapshotDays });
+
+  const handleSetRelockMinutes = (relockMinutes: number) => updateSettings({ relockMinutes });
 
   // ---------------- Avatar picker state ----------------
   const [isPickerOpen, setPickerOpen] = useState(false);
@@ -99,9 +252,15 @@ export default function App() {
     () => new Map(state.kids.map((k) => [k.id, k])),
     [state.kids]
   );
+  const activeKids = state.kids.filter(isActive);
+  const archivedKids = state.kids.filter((k) => !isActive(k));
+
+  // kid mode can change only the avatar of the kid using this device
+  const kidModeKid = activeKids.find((k) => k.id === state.settings.kidModeKidId);
 
   // open picker for an existing kid
   function handleOpenAvatarForKid(kidId: string) {
+    if (!parentMode && kidId !== kidModeKid?.id) return;
     const k = kidById.get(kidId);
     setPendingAvatar(k?.avatar || k?.emoji || '😀');
     setEditingKidId(kidId);
@@ -120,14 +279,10 @@ export default function App() {
 
   // when a value is picked in the modal
   function handleAvatarPicked(v: string) {
-    if (editingKidId) {
+    const kid = editingKidId ? kidById.get(editingKidId) : undefined;
+    if (kid) {
       // update existing kid
-      setState((s) => {
-        const kids = s.kids.map((k) =>
-          k.id === editingKidId ? { ...k, avatar: v } : k
-        );
-        return { ...s, kids };
-      });
+      dispatch({ type: 'updateKid', kid: { ...kid, avatar: v } });
     } else {
       // just stash for the “Add” flow
       setNewKidAvatar(v);
@@ -140,62 +295,268 @@ export default function App() {
     const name = newKidName.trim();
     if (!name) return;
 
-    const k: KidLike = {
+    const k: Kid = {
       id: uid(),
       name,
       emoji: newKidEmoji || undefined,
       avatar: newKidAvatar || undefined, // save avatar if chosen
-      points: 0,
     };
 
-    setState((s) => ({ ...s, kids: [...s.kids, k] }));
+    dispatchOp({ type: 'addKid', kid: k });
     setNewKidName('');
     setNewKidEmoji('😀');
     setNewKidAvatar(null);
   }
 
-  function handleDeleteKid(id: string) {
-    setState((s) => ({
-      ...s,
-      kids: s.kids.filter((k) => k.id !== id),
-      // scrub from related arrays if needed (leave as-is if you have logic elsewhere)
-      completions: s.completions.filter((c: any) => c.kidId !== id),
-      adjustments: (s.adjustments || []).filter((a: any) => a.kidId !== id),
-    }));
+  // Archiving hides a kid but keeps their history for Reports; purging
+  // removes them and every record that mentions them.
+  function handleArchiveKid(id: string) {
+    dispatch({ type: 'archiveKid', kidId: id, dateISO: toISO(new Date()) });
+  }
+
+  function handleRestoreKid(id: string) {
+    dispatch({ type: 'restoreKid', kidId: id });
+  }
+
+  function handlePurgeKid(id: string) {
+    const name = kidById.get(id)?.name ?? 'this kid';
+    const done = state.completions.filter((c) => c.kidId === id).length;
+    if (!window.confirm(`Permanently delete ${name}, their ${done} completions and all their points history?`)) return;
+    dispatch({ type: 'purgeKid', kidId: id });
+  }
+
+  // ---------------- Manage: manual point adjustments ----------------
+  const [adjustKidId, setAdjustKidId] = useState<string | null>(null);
+
+  function handleAdjust(delta: number, reason: string) {
+    if (!adjustKidId) return;
+    dispatchOp({
+      type: 'adjust',
+      adjustment: {
+        id: uid(), kidId: adjustKidId, delta, reason, timestampISO: new Date().toISOString(),
+        jars: kidSplit(kidById.get(adjustKidId)),
+      },
+    });
+    setAdjustKidId(null);
+  }
+
+  // ---------------- Manage: chores CRUD + ordering ----------------
+  function handleSaveChore(ch: Chore) {
+    if (state.chores.some((x) => x.id === ch.id)) {
+      dispatchOp({ type: 'upsertChore', chore: ch });
+      return;
+    }
+    const order = Math.max(-1, ...state.chores.map((x) => x.order ?? -1)) + 1;
+    dispatchOp({ type: 'upsertChore', chore: { ...ch, order } });
+  }
+
+  // archived chores stop being due from today; past completions still count
+  function handleArchiveChore(id: string) {
+    const ch = state.chores.find((x) => x.id === id);
+    if (ch) dispatchOp({ type: 'upsertChore', chore: { ...ch, archivedISO: toISO(new Date()) } });
+  }
+
+  function handleRestoreChore(id: string) {
+    const ch = state.chores.find((x) => x.id === id);
+    if (!ch) return;
+    const { archivedISO, ...chore } = ch;
+    dispatchOp({ type: 'upsertChore', chore });
+  }
+
+  function handlePurgeChore(id: string) {
+    dispatch({ type: 'purgeChore', choreId: id, todayISO: toISO(new Date()) });
+  }
+
+  function handleReorderChores(ids: string[]) {
+    dispatchOp(
+      ...state.chores
+        .filter((ch) => ch.order !== ids.indexOf(ch.id))
+        .map((ch): SyncOp => ({ type: 'upsertChore', chore: { ...ch, order: ids.indexOf(ch.id) } }))
+    );
+  }
+
+  // ---------------- Manage: rewards CRUD + approvals ----------------
+  function handleSaveReward(r: Reward) {
+    dispatchOp({ type: 'upsertReward', reward: r });
+  }
+
+  function handleDeleteReward(id: string) {
+    dispatchOp({ type: 'deleteReward', rewardId: id });
+  }
+
+  function handleResolveRedemption(id: string, approved: boolean) {
+    const red = state.redemptions.find((r) => r.id === id);
+    if (!red || red.status !== 'pending') return;
+    dispatchOp({ type: 'redemption', redemption: { ...red, status: approved ? 'approved' : 'rejected' } });
+  }
+
+  // ---------------- Manage: savings goals ----------------
+  function handleSaveGoal(goal: Goal) {
+    dispatch({ type: 'saveGoal', goal });
+  }
+
+  function handleDeleteGoal(id: string) {
+    dispatch({ type: 'deleteGoal', goalId: id });
   }
 
   // ----------------- Board callbacks (unchanged contracts) -----------------
-  const handleToggleCompletion = (kidId: string, choreId: string, dateISO: string) => {
-    // delegate to your existing reducer/effects if you have them.
-    // For safety, we’ll do a simple toggle here if you have no reducer:
-    setState((s) => {
-      const key = `${kidId}|${choreId}|${dateISO}`;
-      const exists = s.completions.some((c: any) => `${c.kidId}|${c.choreId}|${c.date}` === key);
-      const completions = exists
-        ? s.completions.filter((c: any) => `${c.kidId}|${c.choreId}|${c.date}` !== key)
-        : [...s.completions, { kidId, choreId, date: dateISO }];
-
-      return { ...s, completions };
+  // `stepId` ticks one step of a chore's checklist; without it the whole
+  // chore (every step) is toggled
+  const handleToggleCompletion = (kidId: string, choreId: string, dateISO: string, stepId?: string) => {
+    const existing = state.completions.find(
+      (c) => c.kidId === kidId && c.choreId === choreId && c.dateISO === dateISO
+    );
+    const chore = state.chores.find((ch) => ch.id === choreId);
+    let status: CompletionStatus | null;
+    let points = chore?.points ?? 0;
+    let stepIds: string[] | undefined;
+    if (chore?.steps?.length) {
+      const all = chore.steps.map((st) => st.id);
+      const done = stepsDone(chore, existing);
+      stepIds = stepId
+        ? all.filter((id) => (id === stepId) !== done.includes(id))
+        : done.length === all.length ? [] : all;
+      ({ status, points } = stepResult(chore, stepIds.length));
+    } else {
+      // a rejected check can be tried again; anything else un-toggles
+      status = existing && existing.status !== 'rejected'
+        ? null
+        : chore?.requiresApproval
+          ? 'pending'
+          : 'approved';
+    }
+    const late = (status === 'approved' || status === 'pending') && !!chore && isLate(chore, dateISO, state.settings);
+    // locked in now, so editing the chore or the late rule later doesn't rewrite history
+    if (late) points = latePoints(points, state.settings);
+    const checked = recheck(existing, status, points);
+    dispatchOp({
+      type: 'setCompletion',
+      completionId: existing?.id ?? uid(),
+      kidId,
+      choreId,
+      dateISO,
+      status: checked.status,
+      points,
+      late,
+      stepIds,
+      approved: checked.approved,
     });
   };
 
-  const handleToggleHideCompleted = () => {
-    setState((s) => ({
-      ...s,
-      settings: {
-        ...(s.settings || {}),
-        hideCompletedOnBoard: !(s.settings?.hideCompletedOnBoard ?? false),
+  const handleResolveCompletion = (id: string, approved: boolean) => {
+    const c = state.completions.find((x) => x.id === id);
+    if (!c || c.status !== 'pending') return;
+    // rejecting more steps on a checklist keeps the part already approved
+    const kept = !approved && c.approved;
+    dispatchOp({
+      type: 'setCompletion',
+      completionId: c.id,
+      kidId: c.kidId,
+      choreId: c.choreId,
+      dateISO: c.dateISO,
+      status: approved || kept ? 'approved' : 'rejected',
+      points: kept ? kept.points : c.points,
+      late: c.late,
+      stepIds: kept ? kept.stepIds : c.stepIds,
+    });
+  };
+
+  // one-day swap on a rotating chore; picking the scheduled kid clears it
+  const handleSwapRotation = (choreId: string, dateISO: string, kidId: string) => {
+    const ch = state.chores.find((x) => x.id === choreId);
+    if (!ch?.rotation) return;
+    const { [dateISO]: _, ...swaps } = ch.rotation.swaps ?? {};
+    const rotation = { ...ch.rotation, swaps };
+    const scheduled = rotationAssignee({ ...ch, rotation }, dateISO, state.kids);
+    if (kidId !== scheduled) swaps[dateISO] = kidId;
+    dispatchOp({ type: 'upsertChore', chore: { ...ch, rotation } });
+  };
+
+  const handleRedeem = (kidId: string, rewardId: string) => {
+    const reward = state.rewards.find((r) => r.id === rewardId);
+    if (!reward) return;
+    const blocker = redeemBlocker(state, kidId, reward);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+    dispatchOp({
+      type: 'redemption',
+      redemption: {
+        id: uid(),
+        kidId,
+        rewardId,
+        title: reward.title,
+        cost: reward.cost,
+        status: reward.requiresApproval ? 'pending' : 'approved',
+        timestampISO: new Date().toISOString(),
       },
-    }));
+    });
+  };
+
+  const handleToggleHideCompleted = () => {
+    updateSettings({ hideCompletedOnBoard: !state.settings.hideCompletedOnBoard });
   };
 
   // payout callback for Reports
-  const handlePayout = (kidId: string) => {
-    // add your payout logic here
-    console.log('Mark paid for', kidId);
+  const handlePayout = (
+    kidId: string, period: PayoutPeriod, startISO: string, endISO: string, points: number, adjustments: AdjustmentLog[]
+  ) => {
+    const amount = pointsToDollars(points, state.settings);
+    dispatchOp({
+      type: 'payout',
+      payout: {
+        id: uid(),
+        kidId,
+        period,
+        startISO,
+        endISO,
+        points,
+        amount,
+        jars: payoutJars(amount, points, adjustments, kidSplit(kidById.get(kidId))),
+        timestampISO: new Date().toISOString(),
+      },
+    });
+  };
+
+  // jar callbacks for Reports
+  const handleJarEntry = (entry: Omit<JarEntry, 'id' | 'timestampISO'>) => {
+    dispatchOp({ type: 'jar', entry: { ...entry, id: uid(), timestampISO: new Date().toISOString() } });
+  };
+
+  const handleSetJarSplit = (kidId: string, jars: Jars) => {
+    if (kidById.has(kidId)) dispatchOp({ type: 'setJars', kidId, jars });
+  };
+
+  const handleSetStreakRules = (streakRules: StreakRule[]) => {
+    updateSettings({ streakRules });
+  };
+
+  const handleSetLateRule = (patch: Partial<LateRule>) => {
+    updateSettings({ lateRule: { ...state.settings.lateRule, ...patch } });
+  };
+
+  // turning the penalty on starts from today: earlier misses aren't charged
+  const handleSetMissedPenalty = (points: number) => {
+    const was = state.settings.missedPenalty;
+    const sinceISO = points > 0 && was.points > 0 ? was.sinceISO : points > 0 ? toISO(new Date()) : '';
+    updateSettings({ missedPenalty: { ...was, points, sinceISO } });
+  };
+
+  const handleSetDollarsPerPoint = (rate: number) => {
+    updateSettings({ dollarsPerPoint: rate });
   };
 
   // ----------------- UI -----------------
+  const approvals = pendingCount(state);
+
+  if (!loaded) {
+    return (
+      <div className="container">
+        <div className="card muted">{loadError ?? 'Loading…'}</div>
+      </div>
+    );
+  }
 
   return (
     <div className="container">
@@ -208,9 +569,42 @@ export default function App() {
 
         <nav className="tabs">
           <button className={tab === 'board' ? 'tab on' : 'tab'} onClick={() => setTab('board')}>Board</button>
-          <button className={tab === 'calendar' ? 'tab on' : 'tab'} onClick={() => setTab('calendar')}>Calendar</button>
-          <button className={tab === 'manage' ? 'tab on' : 'tab'} onClick={() => setTab('manage')}>Manage</button>
-          <button className={tab === 'reports' ? 'tab on' : 'tab'} onClick={() => setTab('reports')}>Reports</button>
+          {parentMode && (
+            <>
+              <button className={tab === 'calendar' ? 'tab on' : 'tab'} onClick={() => setTab('calendar')}>Calendar</button>
+              <button className={tab === 'manage' ? 'tab on' : 'tab'} onClick={() => setTab('manage')}>
+                Manage
+                {approvals > 0 && <span className="badge" title="Waiting for approval">{approvals}</span>}
+              </button>
+              <button className={tab === 'reports' ? 'tab on' : 'tab'} onClick={() => setTab('reports')}>Reports</button>
+              <button className={tab === 'settings' ? 'tab on' : 'tab'} onClick={() => setTab('settings')}>Settings</button>
+            </>
+          )}
+          <button
+            className="tab"
+            disabled={!canUndo}
+            title={
+              canUndo ? `Undo: ${stepSummary(undoStep)}`
+                : undoSynced ? `Can't undo while syncing, other devices already have it: ${stepSummary(undoStep)}`
+                : 'Nothing to undo'
+            }
+            onClick={handleUndo}
+          >
+            ↶ Undo
+          </button>
+          <button className="tab" disabled={!canRedo} title={canRedo ? `Redo: ${stepSummary(redoStep)}` : 'Nothing to redo'} onClick={handleRedo}>
+            ↷ Redo
+          </button>
+          {state.settings.parentPin && (
+            unlocked ? (
+              <button className="tab" title="Back to kid mode" onClick={() => setUnlocked(false)}>🔓 Lock</button>
+            ) : (
+              <button className="tab" title="Parent mode" onClick={() => setPinMode('unlock')}>
+                🔒 Parent
+                {approvals > 0 && <span className="badge" title="Waiting for approval">{approvals}</span>}
+              </button>
+            )
+          )}
         </nav>
       </header>
 
@@ -219,23 +613,44 @@ export default function App() {
         {tab === 'board' && (
           <div className="card">
             <BoardView
-              state={state as any}
+              state={state}
+              dateISO={boardDateISO}
+              onDateChange={setBoardDateISO}
               onToggle={handleToggleCompletion}
+              onSwap={parentMode ? handleSwapRotation : undefined}
+              onPickAvatar={parentMode || kidModeKid ? handleOpenAvatarForKid : undefined}
+              ownKidId={parentMode ? undefined : kidModeKid?.id}
+              onRedeem={handleRedeem}
               onToggleHideCompleted={handleToggleHideCompleted}
+              onPrint={parentMode ? () => setTab('print') : undefined}
             />
           </div>
         )}
 
         {tab === 'calendar' && (
           <div className="card">
-            {/* Keep your existing Calendar view here if you have it.
-                Placeholder (to keep app compiling): */}
-            <div style={{ padding: 20, color: '#777' }}>Calendar view coming from your existing code.</div>
+            <CalendarView
+              state={state}
+              onOpenDay={(iso) => {
+                setBoardDateISO(iso);
+                setTab('board');
+              }}
+            />
           </div>
         )}
 
         {tab === 'manage' && (
           <div className="grid-2">
+            {/* Approvals */}
+            <section className="card">
+              <h3>Approvals</h3>
+              <ApprovalsQueue
+                state={state}
+                onResolveCompletion={handleResolveCompletion}
+                onResolveRedemption={handleResolveRedemption}
+              />
+            </section>
+
             {/* Kids */}
             <section className="card">
               <h3>Kids</h3>
@@ -260,11 +675,11 @@ export default function App() {
               </div>
 
               {/* Existing kids */}
-              {state.kids.length === 0 && (
+              {activeKids.length === 0 && (
                 <div className="muted">No kids yet.</div>
               )}
 
-              {state.kids.map((k) => (
+              {activeKids.map((k) => (
                 <div key={k.id} className="row space" style={{ alignItems: 'center', marginBottom: 8 }}>
                   <div className="left" style={{ gap: '.5rem' }}>
                     {/* Avatar or emoji bubble */}
@@ -283,29 +698,192 @@ export default function App() {
                       {k.avatar || k.emoji || '😀'}
                     </div>
                     <strong>{k.name}</strong>
+                    <span className="muted small">{kidBalance(state, k.id)} pts</span>
                   </div>
 
                   <div className="left" style={{ gap: '.5rem' }}>
+                    <button className="pill" onClick={() => setAdjustKidId(k.id)}>±</button>
                     <button className="secondary" onClick={() => handleOpenAvatarForKid(k.id)}>
                       Change Avatar
                     </button>
-                    <button className="danger" onClick={() => handleDeleteKid(k.id)}>Delete</button>
+                    <button className="danger" onClick={() => handleArchiveKid(k.id)}>Archive</button>
                   </div>
                 </div>
               ))}
+
+              {archivedKids.length > 0 && (
+                <details style={{ marginTop: 12 }}>
+                  <summary className="muted small">Archived ({archivedKids.length})</summary>
+                  {archivedKids.map((k) => (
+                    <div key={k.id} className="row space" style={{ alignItems: 'center', marginTop: 8 }}>
+                      <div className="left" style={{ gap: '.5rem' }}>
+                        <span>{k.avatar || k.emoji || '😀'}</span>
+                        <span>{k.name}</span>
+                        <span className="muted small">since {k.archivedISO}</span>
+                      </div>
+                      <div className="left" style={{ gap: '.5rem' }}>
+                        <button className="secondary" onClick={() => handleRestoreKid(k.id)}>Restore</button>
+                        <button className="danger" onClick={() => handlePurgeKid(k.id)}>Delete forever</button>
+                      </div>
+                    </div>
+                  ))}
+                </details>
+              )}
             </section>
 
-            {/* Rewards (your existing block or placeholder) */}
+            {/* Chores */}
+            <section className="card">
+              <h3>Chores</h3>
+              <ChoreEditor
+                chores={state.chores}
+                kids={state.kids}
+                onSave={handleSaveChore}
+                onArchive={handleArchiveChore}
+                onRestore={handleRestoreChore}
+                onPurge={handlePurgeChore}
+                onReorder={handleReorderChores}
+              />
+            </section>
+
+            {/* Rewards */}
             <section className="card">
               <h3>Rewards</h3>
-              <div className="muted">Keep your existing rewards UI here.</div>
+              <RewardsManager
+                rewards={state.rewards}
+                redemptions={state.redemptions}
+                onSave={handleSaveReward}
+                onDelete={handleDeleteReward}
+              />
+            </section>
+
+            {/* Savings goals */}
+            <section className="card">
+              <h3>Savings Goals</h3>
+              <GoalsManager state={state} onSave={handleSaveGoal} onDelete={handleDeleteGoal} />
+            </section>
+
+            {/* Streak bonuses */}
+            <section className="card">
+              <h3>Streak Bonuses</h3>
+              <StreakRulesEditor
+                rules={state.settings.streakRules}
+                onChange={handleSetStreakRules}
+              />
+            </section>
+
+            {/* Late penalty */}
+            <section className="card">
+              <h3>Late &amp; Missed Chores</h3>
+              <div className="muted small" style={{ marginBottom: 8 }}>
+                Chores with a due time turn red on the Board once it passes. Checking one off after that earns:
+              </div>
+              <div className="row wrap" style={{ gap: '.5rem' }}>
+                <input
+                  type="number" min={0} max={100} style={{ width: 70 }}
+                  value={state.settings.lateRule.percent}
+                  onChange={(e) => handleSetLateRule({ percent: Math.min(100, Math.max(0, Math.round(Number(e.target.value) || 0))) })}
+                />
+                <span className="muted small">% of the points, after a grace of</span>
+                <input
+                  type="number" min={0} style={{ width: 70 }}
+                  value={state.settings.lateRule.graceMinutes}
+                  onChange={(e) => handleSetLateRule({ graceMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                />
+                <span className="muted small">minutes</span>
+              </div>
+              <div className="row wrap" style={{ gap: '.5rem', marginTop: 8 }}>
+                <span className="muted small">Chores left undone at the end of their day cost</span>
+                <input
+                  type="number" min={0} style={{ width: 70 }}
+                  value={state.settings.missedPenalty.points}
+                  onChange={(e) => handleSetMissedPenalty(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                />
+                <span className="muted small">points each (0 = off)</span>
+              </div>
             </section>
           </div>
         )}
 
         {tab === 'reports' && (
           <div className="card">
-            <Reports state={state as any} onPayout={handlePayout} />
+            <Reports
+              state={state}
+              onPayout={handlePayout}
+              onSetDollarsPerPoint={handleSetDollarsPerPoint}
+              onJarEntry={handleJarEntry}
+              onSetJarSplit={handleSetJarSplit}
+            />
+          </div>
+        )}
+
+        {tab === 'print' && (
+          <div className="card">
+            <PrintChart state={state} dateISO={boardDateISO} onClose={() => setTab('board')} />
+          </div>
+        )}
+
+        {tab === 'settings' && (
+          <div className="grid-2">
+            {/* Backups */}
+            <section className="card">
+              <h3>Backup &amp; Restore</h3>
+              <BackupPanel
+                state={state}
+                onReplaceState={(next) => dispatch({ type: 'replaceState', state: next })}
+                loadSnapshots={storage.listSnapshots}
+                onSetSnapshotDays={handleSetSnapshotDays}
+              />
+            </section>
+
+            {/* Multi-device sync */}
+            <section className="card">
+              <h3>Sync</h3>
+              <SyncPanel state={state} onRemoteOps={handleRemoteOps} />
+            </section>
+
+            {/* Audit log */}
+            <section className="card">
+              <h3>History</h3>
+              <AuditLog entries={state.audit} />
+            </section>
+
+            {/* Parent lock */}
+            <section className="card">
+              <h3>Parent Lock</h3>
+              <div className="muted small" style={{ marginBottom: 8 }}>
+                {state.settings.parentPin
+                  ? 'Kid mode shows only the Board. Manage, Reports, adjustments and payouts need the PIN.'
+                  : 'No PIN set: anyone can open every tab.'}
+              </div>
+              <div className="row wrap" style={{ gap: '.5rem' }}>
+                <button onClick={() => setPinMode('set')}>
+                  {state.settings.parentPin ? 'Change PIN' : 'Set PIN'}
+                </button>
+                {state.settings.parentPin && (
+                  <button className="danger" onClick={handleRemovePin}>Remove PIN</button>
+                )}
+                <label className="muted small">Relock after</label>
+                <input
+                  type="number" min={1} style={{ width: 60 }}
+                  value={state.settings.relockMinutes}
+                  onChange={(e) => handleSetRelockMinutes(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                />
+                <span className="muted small">idle minutes</span>
+              </div>
+              {state.settings.parentPin && (
+                <div className="row wrap" style={{ gap: '.5rem', marginTop: 8 }}>
+                  <label className="muted small">In kid mode this device is for</label>
+                  <select
+                    value={kidModeKid?.id ?? ''}
+                    onChange={(e) => updateSettings({ kidModeKidId: e.target.value || undefined })}
+                  >
+                    <option value="">Everyone</option>
+                    {activeKids.map((k) => <option key={k.id} value={k.id}>{k.name}</option>)}
+                  </select>
+                  <span className="muted small">who can then change their own avatar</span>
+                </div>
+              )}
+            </section>
           </div>
         )}
       </main>
@@ -317,6 +895,17 @@ export default function App() {
         onChange={(v: string) => handleAvatarPicked(v)}
         onClose={() => setPickerOpen(false)}
       />
+
+      {/* ---------- Parent PIN Modal ---------- */}
+      <PinDialog mode={pinMode} onSubmit={handlePinSubmit} onClose={() => setPinMode(null)} />
+
+      {/* ---------- Adjust Points Modal ---------- */}
+      <AdjustPointsDialog
+        kid={adjustKidId ? kidById.get(adjustKidId) ?? null : null}
+        balance={adjustKidId ? kidBalance(state, adjustKidId) : 0}
+        onSubmit={handleAdjust}
+        onClose={() => setAdjustKidId(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,68 @@
+import React from 'react'
+import { format, parseISO } from 'date-fns'
+import { State } from './types'
+
+type Props = {
+  state: State
+  onResolveCompletion: (completionId: string, approved: boolean) => void
+  onResolveRedemption: (redemptionId: string, approved: boolean) => void
+}
+
+export function pendingCount(state: State) {
+  return (
+    state.completions.filter(c => c.status === 'pending').length +
+    state.redemptions.filter(r => r.status === 'pending').length
+  )
+}
+
+export default function ApprovalsQueue({ state, onResolveCompletion, onResolveRedemption }: Props) {
+  const kidName = (id: string) => state.kids.find(k => k.id === id)?.name || '—'
+  const chore = (id: string) => state.chores.find(ch => ch.id === id)
+
+  const completions = state.completions
+    .filter(c => c.status === 'pending')
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO))
+  const redemptions = state.redemptions.filter(r => r.status === 'pending')
+
+  if (completions.length === 0 && redemptions.length === 0) {
+    return <div className="muted">Nothing waiting for approval.</div>
+  }
+
+  return (
+    <div>
+      {completions.map(c => {
+        const ch = chore(c.choreId)
+        return (
+          <div key={c.id} className="row space" style={{ marginBottom: 8 }}>
+            <div>
+              <strong>{kidName(c.kidId)}</strong> · {ch?.icon || '🧹'} {ch?.title ?? 'Removed chore'}{' '}
+              <span className="muted small">
+                {/* more steps on a checklist: only the extra waits here */}
+                +{c.points - (c.approved?.points ?? 0)}{c.approved && ' more steps'} · {format(parseISO(c.dateISO), 'EEE, MMM d')}
+              </span>
+            </div>
+            <div className="left" style={{ gap: '.5rem' }}>
+              <button onClick={() => onResolveCompletion(c.id, true)}>Approve</button>
+              <button className="danger" onClick={() => onResolveCompletion(c.id, false)}>Reject</button>
+            </div>
+          </div>
+        )
+      })}
+
+      {redemptions.map(r => (
+        <div key={r.id} className="row space" style={{ marginBottom: 8 }}>
+          <div>
+            <strong>{kidName(r.kidId)}</strong> · 🎁 {r.title}{' '}
+            <span className="muted small">
+              {r.cost} pts · {format(parseISO(r.timestampISO), 'MMM d, h:mm a')}
+            </span>
+          </div>
+          <div className="left" style={{ gap: '.5rem' }}>
+            <button onClick={() => onResolveRedemption(r.id, true)}>Approve</button>
+            <button className="danger" onClick={() => onResolveRedemption(r.id, false)}>Reject</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Actor, AuditEntry } from './types'
+
+type Props = {
+  /** Oldest first, as stored */
+  entries: AuditEntry[]
+}
+
+const PAGE = 50
+
+const ACTOR_LABEL: Record<Actor, string> = {
+  parent: '👤 Parent',
+  kid: '🧒 Kid mode',
+  sync: '🔄 Other device',
+  auto: '⏰ Automatic',
+}
+
+export default function AuditLog({ entries }: Props) {
+  const [filter, setFilter] = useState<Actor | 'all'>('all')
+  const [shown, setShown] = useState(PAGE)
+
+  const list = entries.filter(e => filter === 'all' || e.actor === filter).reverse()
+
+  return (
+    <div>
+      <div className="row" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <select value={filter} onChange={e => { setFilter(e.target.value as Actor | 'all'); setShown(PAGE) }}>
+          <option value="all">Everyone</option>
+          {(Object.keys(ACTOR_LABEL) as Actor[]).map(a => (
+            <option key={a} value={a}>{ACTOR_LABEL[a]}</option>
+          ))}
+        </select>
+        <span className="muted small">{list.length} changes</span>
+      </div>
+
+      {list.length === 0 && <div className="muted">Nothing yet.</div>}
+      {list.slice(0, shown).map(e => (
+        <div key={e.id} style={{ marginBottom: 6 }}>
+          <div>{e.summary}</div>
+          <div className="muted small">
+            {format(parseISO(e.timestampISO), 'EEE, MMM d • h:mm a')} · {ACTOR_LABEL[e.actor]}
+          </div>
+        </div>
+      ))}
+      {list.length > shown && (
+        <button className="secondary" onClick={() => setShown(n => n + PAGE)}>Show more</button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Snapshot, State } from './types'
+import { ImportMode, applyImport, downloadBackup, parseBackup, restoreSnapshot } from './backup'
+
+type Props = {
+  state: State
+  /** Replace the whole app state (import or restore) */
+  onReplaceState: (next: State) => void
+  /** Daily snapshots from the storage backend, newest first */
+  loadSnapshots: () => Promise<Snapshot[]>
+  onSetSnapshotDays: (days: number) => void
+}
+
+export default function BackupPanel({ state, onReplaceState, loadSnapshots, onSetSnapshotDays }: Props) {
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const [mode, setMode] = useState<ImportMode>('merge')
+  // read when the panel opens; a new snapshot is only taken once a day
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  useEffect(() => {
+    loadSnapshots().then(setSnapshots).catch(err => console.warn('Reading snapshots failed', err))
+  }, [loadSnapshots])
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = '' // allow picking the same file again
+    if (!file) return
+    try {
+      const imported = parseBackup(await file.text())
+      const verb = mode === 'replace' ? 'Replace ALL current data with' : 'Merge in'
+      if (!window.confirm(`${verb} ${imported.kids.length} kids, ${imported.chores.length} chores and ${imported.completions.length} completions?`)) return
+      onReplaceState(applyImport(state, imported, mode))
+      alert('Import complete.')
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Import failed.')
+    }
+  }
+
+  function handleRestore(snap: Snapshot) {
+    const when = format(parseISO(snap.takenISO), 'EEE, MMM d • h:mm a')
+    if (!window.confirm(`Restore the backup from ${when}? Changes since then will be lost.`)) return
+    onReplaceState(restoreSnapshot(snap))
+  }
+
+  return (
+    <div>
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 12 }}>
+        <button onClick={() => downloadBackup(state)}>Export JSON</button>
+        <select value={mode} onChange={e => setMode(e.target.value as ImportMode)}>
+          <option value="merge">Import: merge by ID</option>
+          <option value="replace">Import: replace everything</option>
+        </select>
+        <button className="secondary" onClick={() => fileRef.current?.click()}>Choose file…</button>
+        <input ref={fileRef} type="file" accept="application/json,.json" hidden onChange={handleFile} />
+      </div>
+
+      <div className="row" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <h4 style={{ margin: 0 }}>Daily snapshots</h4>
+        <span className="muted small">keep</span>
+        <input
+          type="number" min={1} max={60} style={{ width: 60 }}
+          value={state.settings.snapshotDays}
+          onChange={e => onSetSnapshotDays(Math.min(60, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+        />
+        <span className="muted small">days</span>
+      </div>
+
+      {snapshots.length === 0 && <div className="muted">No snapshots yet.</div>}
+      {snapshots.map(s => (
+        <div key={s.dateISO} className="row space" style={{ marginBottom: 6 }}>
+          <div>
+            <strong>{format(parseISO(s.takenISO), 'EEE, MMM d • h:mm a')}</strong>{' '}
+            <span className="muted small">
+              {s.state.kids.length} kids · {s.state.completions.length} completions
+            </span>
+          </div>
+          <button className="secondary" onClick={() => handleRestore(s)}>Restore</button>
+        </div>
+      ))}
+    </div>
+  )
+}
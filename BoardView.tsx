@@ -1,41 +1,134 @@
-import React, { useMemo, useState } from 'react'
-import { format } from 'date-fns'
-import { Chore, State } from './types'
-import { isChoreDueOn, toISO } from './utils'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Chore, Completion, CompletionStatus, Goal, State } from './types'
+import {
+  GoalProgress, ROUTINES, byDueTime, choresDueFor, dueAt, goalProgress, isActive, isLate, kidBalance, latePoints,
+  isFullyDone, redeemBlocker, stepsDone
+} from './utils'
+import { currentStreak } from './streaks'
+import { Occurrence, carriedOver } from './missed'
 
 export default function BoardView({
   state,
+  dateISO,
+  onDateChange,
   onToggle,
+  onSwap,
+  onPickAvatar,
+  ownKidId,
+  onRedeem,
   onToggleHideCompleted,
+  onPrint,
 }: {
   state: State
-  onToggle: (kidId: string, choreId: string, dateISO: string) => void
+  dateISO: string
+  onDateChange: (dateISO: string) => void
+  /** `stepId` ticks one step of a chore's checklist */
+  onToggle: (kidId: string, choreId: string, dateISO: string, stepId?: string) => void
+  /** One-day rotation swap; omitted in kid mode */
+  onSwap?: (choreId: string, dateISO: string, kidId: string) => void
+  /** Change a kid's avatar from their own column; in kid mode only `ownKidId`'s */
+  onPickAvatar?: (kidId: string) => void
+  /** Kid mode: the kid using this device, see Settings.kidModeKidId */
+  ownKidId?: string
+  onRedeem: (kidId: string, rewardId: string) => void
   onToggleHideCompleted: () => void
+  /** Open the printable week chart; omitted in kid mode */
+  onPrint?: () => void
 }) {
-  const todayISO = toISO(new Date())
-  const [dateISO, setDateISO] = useState(todayISO)
+  const canPickAvatar = (kidId: string) => !!onPickAvatar && (!ownKidId || ownKidId === kidId)
+
+  // which kid's reward shelf is open
+  const [redeemKidId, setRedeemKidId] = useState<string | null>(null)
+
+  const kids = useMemo(() => state.kids.filter(isActive), [state.kids])
+
+  // ticks so chores turn overdue while the Board is open
+  const [now, setNow] = useState(() => new Date())
+  useEffect(() => {
+    const t = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(t)
+  }, [])
 
   const data = useMemo(() => {
     const map: Record<string, Chore[]> = {}
-    for (const kid of state.kids) {
-      map[kid.id] = state.chores.filter(
-        (ch) => ch.assignedKidIds.includes(kid.id) && isChoreDueOn(ch, dateISO)
-      )
+    for (const kid of kids) {
+      map[kid.id] = choresDueFor(state, kid.id, dateISO)
     }
     return map
-  }, [state.kids, state.chores, dateISO])
+  }, [kids, state.chores, state.kids, dateISO])
+
+  // missed "carry over until done" chores from earlier days
+  const carried = useMemo(() => {
+    const map: Record<string, Occurrence[]> = {}
+    for (const kid of kids) map[kid.id] = carriedOver(state, kid.id, dateISO)
+    return map
+  }, [state, kids, dateISO])
+
+  const streaks = useMemo(() => {
+    const map: Record<string, number> = {}
+    for (const kid of kids) map[kid.id] = currentStreak(state, kid.id, dateISO)
+    return map
+  }, [state, kids, dateISO])
+
+  const goals = useMemo(
+    () => state.goals.map((goal) => ({ goal, progress: goalProgress(state, goal) })),
+    [state]
+  )
+
+  // 🎉 when a goal crosses its target while the Board is open (goals that
+  // were already reached when it opened don't celebrate again)
+  const reachedRef = useRef<Set<string> | null>(null)
+  const [celebration, setCelebration] = useState<string | null>(null)
+  useEffect(() => {
+    const reached = new Set(goals.filter((g) => g.progress.reached).map((g) => g.goal.id))
+    const before = reachedRef.current
+    reachedRef.current = reached
+    const fresh = before && goals.find((g) => reached.has(g.goal.id) && !before.has(g.goal.id))
+    if (!fresh) return
+    const name = state.kids.find((k) => k.id === fresh.goal.kidId)?.name ?? ''
+    setCelebration(`${name} reached “${fresh.goal.title}”!`)
+  }, [goals, state.kids])
+  useEffect(() => {
+    if (!celebration) return
+    const t = setTimeout(() => setCelebration(null), 4000)
+    return () => clearTimeout(t)
+  }, [celebration])
+
+  const completionOf = (choreId: string, kidId: string, day = dateISO) =>
+    state.completions.find(
+      (c) => c.choreId === choreId && c.kidId === kidId && c.dateISO === day
+    )
 
-  const isCompleted = (choreId: string, kidId: string) =>
-    state.completions.some(
-      (c) => c.choreId === choreId && c.kidId === kidId && c.date === dateISO && c.completed
+  // what's left after "hide completed", so empty routine headings drop out too
+  const visible = (kidId: string) =>
+    (data[kidId] ?? []).filter(
+      (ch) => !(state.settings.hideCompletedOnBoard && isFullyDone(ch, completionOf(ch.id, kidId)))
     )
 
+  // carried-over chores first, then the day's own by routine
+  const sections = (kidId: string) => {
+    const own = groupByRoutine(visible(kidId).map((chore) => ({ chore, dateISO })))
+    if (carried[kidId].length === 0) return own
+    return [
+      { key: 'carried', label: '⏪ Carried over', items: carried[kidId] },
+      ...own.map((g) => ({ ...g, label: g.label || `Due ${format(parseISO(dateISO), 'EEEE')}` })),
+    ]
+  }
+
   return (
     <div className="board">
+      {celebration && (
+        <div className="celebrate" role="status" onClick={() => setCelebration(null)}>
+          <div className="celebrate-burst">🎉</div>
+          <div>{celebration}</div>
+        </div>
+      )}
+
       <div className="board-toolbar">
         <div className="row">
           <label className="lbl">Date</label>
-          <input type="date" value={dateISO} onChange={(e) => setDateISO(e.target.value)} />
+          <input type="date" value={dateISO} onChange={(e) => onDateChange(e.target.value)} />
         </div>
         <div className="row">
           <label className="lbl">Hide completed</label>
@@ -45,59 +138,164 @@ export default function BoardView({
             onChange={onToggleHideCompleted}
           />
         </div>
-        <div className="muted small">{format(new Date(dateISO), 'EEEE, MMM d')}</div>
+        <div className="muted small">{format(parseISO(dateISO), 'EEEE, MMM d')}</div>
+        {onPrint && (
+          <button className="secondary small" onClick={onPrint}>🖨 Print week</button>
+        )}
       </div>
 
       <div className="columns">
-        {state.kids.map((kid) => (
+        {kids.map((kid) => (
           <div
             className="column"
             key={kid.id}
             style={{ background: (kid.color ?? '#e8efff') + '33' }}
           >
             <div className="col-header">
-              <div className="avatar" style={{ background: kid.color ?? '#6ea8fe' }}>
-                {initials(kid.name)}
-              </div>
+              <button
+                className="avatar"
+                title={canPickAvatar(kid.id) ? 'Change avatar' : undefined}
+                style={{ background: kid.color ?? '#6ea8fe' }}
+                disabled={!canPickAvatar(kid.id)}
+                onClick={() => canPickAvatar(kid.id) && onPickAvatar?.(kid.id)}
+              >
+                {kid.avatar || kid.emoji || initials(kid.name)}
+              </button>
               <div className="col-title">
                 <div className="name">{kid.name}</div>
-                <div className="muted small">Points: {kid.points}</div>
+                <div className="muted small">
+                  Points: {kidBalance(state, kid.id)}
+                  {streaks[kid.id] > 0 && <span title="Current streak"> · 🔥 {streaks[kid.id]}</span>}
+                </div>
+                {goals
+                  .filter((g) => g.goal.kidId === kid.id)
+                  .map((g) => <GoalBar key={g.goal.id} goal={g.goal} progress={g.progress} />)}
               </div>
+              {state.rewards.length > 0 && (
+                <button
+                  className="secondary small"
+                  title="Redeem a reward"
+                  onClick={() => setRedeemKidId(redeemKidId === kid.id ? null : kid.id)}
+                >
+                  🎁
+                </button>
+              )}
             </div>
 
+            {redeemKidId === kid.id && (
+              <div className="cards">
+                {state.rewards.map((r) => {
+                  const blocker = redeemBlocker(state, kid.id, r)
+                  return (
+                    <div key={r.id} className="card row space">
+                      <div>
+                        <div className="title">{r.title}</div>
+                        <div className="muted small">{blocker ?? `${r.cost} pts`}</div>
+                      </div>
+                      <button
+                        className="small"
+                        disabled={!!blocker}
+                        onClick={() => onRedeem(kid.id, r.id)}
+                      >
+                        {r.requiresApproval ? 'Ask' : 'Redeem'}
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
             <div className="cards">
-              {(!data[kid.id] || data[kid.id].length === 0) && (
+              {(!data[kid.id] || data[kid.id].length === 0) && carried[kid.id].length === 0 && (
                 <div className="muted small">No chores due</div>
               )}
 
-              {data[kid.id]?.map((ch) => {
-                const done = isCompleted(ch.id, kid.id)
-                if (state.settings.hideCompletedOnBoard && done) return null
-                return (
-                  <label key={ch.id} className={`card ${done ? 'done' : ''}`}>
-                    <div className="row space">
-                      <div className="left">
-                        <div className="icon">🧹</div>
-                        <div className="title">{ch.title}</div>
-                      </div>
-                      <div className="points">+{ch.points}</div>
-                    </div>
+              {sections(kid.id).map((group) => (
+                <React.Fragment key={group.key}>
+                  {group.label && <div className="routine-head">{group.label}</div>}
+                  {group.items.map(({ chore: ch, dateISO: day }) => {
+                    const completion = completionOf(ch.id, kid.id, day)
+                    const status = completion?.status
+                    // pending counts as done for the kid; only points wait on a parent
+                    const done = isFullyDone(ch, completion)
+                    const overdue = !done && isLate(ch, day, state.settings, now)
+                    const due = dueAt(ch, day)
+                    const steps = ch.steps ?? []
+                    const ticked = stepsDone(ch, completion)
+                    // a checklist card holds its own checkboxes, so it can't be one big label
+                    const Card = steps.length ? 'div' : 'label'
+                    return (
+                      <Card key={`${ch.id}|${day}`} className={`card ${done ? 'done' : ''} ${status ?? ''} ${overdue ? 'overdue' : ''}`}>
+                        <div className="row space">
+                          <div className="left">
+                            <div className="icon">{ch.icon || '🧹'}</div>
+                            <div className="title">{ch.title}</div>
+                          </div>
+                          {/* a check keeps the value it was earned at */}
+                          <div className="points" title={overdue ? 'Late: reduced points' : undefined}>
+                            +{completion?.points ?? (overdue ? latePoints(ch.points, state.settings) : ch.points)}
+                          </div>
+                        </div>
 
-                    <div className="sub muted small">{scheduleLabel(ch)}</div>
-
-                    <div className="row">
-                      <input
-                        type="checkbox"
-                        checked={done}
-                        onChange={() => onToggle(kid.id, ch.id, dateISO)}
-                      />
-                      <span className="muted small">
-                        {done ? 'Completed' : 'Mark complete'}
-                      </span>
-                    </div>
-                  </label>
-                )
-              })}
+                        <div className="sub muted small">
+                          {scheduleLabel(ch)}
+                          {ch.rotation && ' · taking turns'}
+                          {day !== dateISO
+                            ? ` · from ${format(parseISO(day), 'EEE MMM d')}`
+                            : due && ` · due ${format(due, 'h:mm a')}`}
+                          {(overdue || completion?.late) && <span className="late-tag"> · late</span>}
+                        </div>
+
+                        {steps.length > 0 && (
+                          <div className="steps">
+                            <div className="steps-track" title={`${ticked.length} of ${steps.length} steps`}>
+                              <div className="steps-fill" style={{ width: `${(ticked.length / steps.length) * 100}%` }} />
+                            </div>
+                            {steps.map((st) => (
+                              <label key={st.id} className={`row step ${ticked.includes(st.id) ? 'ticked' : ''}`}>
+                                <input
+                                  type="checkbox"
+                                  checked={ticked.includes(st.id)}
+                                  onChange={() => onToggle(kid.id, ch.id, day, st.id)}
+                                />
+                                <span>{st.title}</span>
+                              </label>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className="row">
+                          <input
+                            type="checkbox"
+                            checked={done}
+                            onChange={() => onToggle(kid.id, ch.id, day)}
+                          />
+                          <span className="muted small">
+                            {status === 'approved' && !done ? 'Points for the steps so far' : statusText(status, ch.requiresApproval)}
+                            {steps.length > 0 && ` · ${ticked.length}/${steps.length} steps`}
+                          </span>
+                        </div>
+
+                        {onSwap && ch.rotation && ch.kidIds.length > 1 && (
+                          <div className="row">
+                            <span className="muted small">Swap with</span>
+                            <select
+                              value={kid.id}
+                              onChange={(e) => onSwap(ch.id, day, e.target.value)}
+                            >
+                              {ch.kidIds.map((id) => (
+                                <option key={id} value={id}>
+                                  {state.kids.find((k) => k.id === id)?.name ?? '—'}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </Card>
+                    )
+                  })}
+                </React.Fragment>
+              ))}
             </div>
           </div>
         ))}
@@ -106,13 +304,82 @@ export default function BoardView({
   )
 }
 
+function GoalBar({ goal, progress }: { goal: Goal; progress: GoalProgress }) {
+  const { saved, target, reached, projectedISO } = progress
+  const pct = Number.isFinite(target) && target > 0 ? Math.min(100, (saved / target) * 100) : 0
+  const late = !!(goal.deadlineISO && projectedISO && projectedISO > goal.deadlineISO)
+  return (
+    <div className="goal" title={`${saved} of ${target} points`}>
+      <div className="row space small">
+        <span>{reached ? '🎉' : '🎯'} {goal.title}</span>
+        <span className="muted">
+          {reached
+            ? 'reached!'
+            : projectedISO
+              ? `~${format(parseISO(projectedISO), 'MMM d')}${late ? ' (after deadline)' : ''}`
+              : `${saved}/${target}`}
+        </span>
+      </div>
+      <div className="goal-track">
+        <div className={`goal-fill ${reached ? 'reached' : late ? 'late' : ''}`} style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  )
+}
+
+// Routine sections in day order, then chores without one. No headings
+// when nothing on the list has a routine.
+function groupByRoutine(items: Occurrence[]) {
+  const sorted = [...items].sort((a, b) => byDueTime(a.chore, b.chore))
+  if (!sorted.some((o) => o.chore.routine)) return sorted.length ? [{ key: 'all', label: '', items: sorted }] : []
+  return [
+    ...ROUTINES.map((r) => ({
+      key: r.id,
+      label: `${r.icon} ${r.label}`,
+      items: sorted.filter((o) => o.chore.routine === r.id),
+    })),
+    { key: 'anytime', label: 'Any time', items: sorted.filter((o) => !o.chore.routine) },
+  ].filter((g) => g.items.length > 0)
+}
+
 function scheduleLabel(ch: Chore) {
-  if (ch.schedule.type === 'daily') return 'Daily'
-  if (ch.schedule.type === 'weekly') {
-    const map = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-    return `Weekly · ${ch.schedule.daysOfWeek.map((d) => map[d]).join(', ')}`
+  const s = ch.schedule
+  const map = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+  let label = 'Custom dates'
+  if (s.type === 'daily') label = 'Daily'
+  if (s.type === 'weekly') {
+    label = `Weekly · ${(s.daysOfWeek ?? []).map((d) => map[d]).join(', ')}`
+  }
+  if (s.type === 'interval') {
+    const every = s.every ?? 1
+    const unit = s.unit === 'week' ? 'week' : 'day'
+    label = every === 1 ? `Every ${unit}` : `Every ${every} ${unit}s`
+    if (s.unit === 'week' && s.daysOfWeek?.length) {
+      label += ` · ${s.daysOfWeek.map((d) => map[d]).join(', ')}`
+    }
   }
-  return `Custom dates`
+  if (s.type === 'monthly') {
+    if (s.dayOfMonth) label = `Monthly · ${ordinal(s.dayOfMonth)}`
+    else if (s.nthWeekday) {
+      const { n, weekday } = s.nthWeekday
+      label = `Monthly · ${n === -1 ? 'last' : ordinal(n)} ${map[weekday]}`
+    } else label = 'Monthly'
+  }
+  if (s.endISO) label += ` · until ${format(parseISO(s.endISO), 'MMM d')}`
+  return label
+}
+
+function statusText(status: CompletionStatus | undefined, requiresApproval?: boolean) {
+  if (status === 'approved') return 'Completed'
+  if (status === 'pending') return 'Waiting for a parent'
+  if (status === 'rejected') return 'Not approved · try again'
+  if (status === 'started') return 'Keep going'
+  return requiresApproval ? 'Mark complete (needs OK)' : 'Mark complete'
+}
+
+function ordinal(n: number) {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  return `${n}${suffix}`
 }
 
 function initials(n: string) {
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { State } from './types'
+import { choresDueFor, isActive, monthDays, nextMonth, prevMonth, toISO, upNext } from './utils'
+
+type Props = {
+  state: State
+  onOpenDay: (dateISO: string) => void
+}
+
+type DayStat = { kidId: string; done: number; due: number }
+
+export default function CalendarView({ state, onOpenDay }: Props) {
+  const today = new Date()
+  const [ym, setYm] = useState({ y: today.getFullYear(), m: today.getMonth() })
+  const [kidId, setKidId] = useState<string>('all')
+
+  const activeKids = state.kids.filter(isActive)
+  const kids = activeKids.filter(k => kidId === 'all' || k.id === kidId)
+  const days = monthDays(ym.y, ym.m)
+  const lead = days[0].getDay() // blank cells before the 1st (weeks start Sunday)
+
+  // "kidId|choreId|date" for every completion, so each cell is a set lookup
+  const done = useMemo(() => {
+    const set = new Set<string>()
+    for (const c of state.completions) {
+      if (c.status === 'approved') set.add(`${c.kidId}|${c.choreId}|${c.dateISO}`)
+    }
+    return set
+  }, [state.completions])
+
+  const statsFor = (dateISO: string): DayStat[] =>
+    kids.map(k => {
+      const due = choresDueFor(state, k.id, dateISO)
+      return {
+        kidId: k.id,
+        due: due.length,
+        done: due.filter(ch => done.has(`${k.id}|${ch.id}|${dateISO}`)).length,
+      }
+    })
+
+  const todayISO = toISO(today)
+  const turns = upNext(state, todayISO)
+    .filter(t => t.kidId && (kidId === 'all' || t.kidId === kidId))
+
+  return (
+    <div>
+      <div className="row space" style={{ marginBottom: 10 }}>
+        <div className="row">
+          <button className="secondary" onClick={() => setYm(prevMonth(ym.y, ym.m))}>‹</button>
+          <h3 style={{ margin: 0, minWidth: 160, textAlign: 'center' }}>
+            {format(days[0], 'MMMM yyyy')}
+          </h3>
+          <button className="secondary" onClick={() => setYm(nextMonth(ym.y, ym.m))}>›</button>
+          <button
+            className="secondary"
+            onClick={() => setYm({ y: today.getFullYear(), m: today.getMonth() })}
+          >
+            Today
+          </button>
+        </div>
+        <div className="row" style={{ gap: 6 }}>
+          <label>Kid</label>
+          <select value={kidId} onChange={e => setKidId(e.target.value)}>
+            <option value="all">All kids</option>
+            {activeKids.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="cal-grid">
+        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => (
+          <div key={d} className="cal-dow muted small">{d}</div>
+        ))}
+        {Array.from({ length: lead }, (_, i) => <div key={`lead-${i}`} />)}
+
+        {days.map(d => {
+          const iso = toISO(d)
+          return (
+            <button
+              key={iso}
+              className={`cal-cell ${iso === todayISO ? 'today' : ''}`}
+              onClick={() => onOpenDay(iso)}
+              title="Open on the board"
+            >
+              <div className="cal-date">{d.getDate()}</div>
+              {statsFor(iso).filter(s => s.due > 0).map(s => (
+                <div key={s.kidId} className={`cal-kid ${dayClass(s)}`}>
+                  <span>{kidLabel(state, s.kidId)}</span>
+                  <span>{s.done}/{s.due}</span>
+                </div>
+              ))}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="row small muted" style={{ marginTop: 10 }}>
+        <span className="cal-kid all">All done</span>
+        <span className="cal-kid partial">Partial</span>
+        <span className="cal-kid none">None</span>
+      </div>
+
+      {turns.length > 0 && (
+        <div style={{ marginTop: 14 }}>
+          <h4 style={{ margin: '0 0 6px' }}>Up next</h4>
+          {turns.map(t => (
+            <div key={t.chore.id} className="row small">
+              <span>{t.chore.icon || '🧹'} {t.chore.title}</span>
+              <span className="muted">
+                {state.kids.find(k => k.id === t.kidId)?.name ?? '—'} · {format(parseISO(t.dateISO), 'EEE, MMM d')}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function dayClass(s: DayStat) {
+  if (s.done === s.due) return 'all'
+  return s.done > 0 ? 'partial' : 'none'
+}
+
+function kidLabel(state: State, kidId: string) {
+  const k = state.kids.find(x => x.id === kidId)
+  return k?.avatar || k?.emoji || k?.name.slice(0, 1) || '?'
+}
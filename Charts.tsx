@@ -0,0 +1,161 @@
+import React from 'react'
+
+// Small dependency-free SVG charts for Reports. They scale to their
+// container width through the viewBox.
+
+const PALETTE = ['#2f86e6', '#e0662f', '#2fa36b', '#9b4fd1', '#d1a02f', '#d14f7a', '#4fb8d1']
+
+export const seriesColor = (i: number, preferred?: string) => preferred ?? PALETTE[i % PALETTE.length]
+
+const AXIS = '#c9d3d9'
+const TEXT = '#6b7b83'
+
+// Round up to 1, 2 or 5 × 10^n so the gridlines land on friendly numbers.
+function niceMax(v: number) {
+  if (v <= 0) return 1
+  const p = 10 ** Math.floor(Math.log10(v))
+  return [1, 2, 5, 10].map(m => m * p).find(m => m >= v)!
+}
+
+export function LineChart({
+  labels,
+  series,
+  height = 200,
+}: {
+  labels: string[]
+  series: { name: string; color: string; values: number[] }[]
+  height?: number
+}) {
+  const W = 640
+  const pad = { top: 10, right: 12, bottom: 26, left: 36 }
+  const w = W - pad.left - pad.right
+  const h = height - pad.top - pad.bottom
+  const max = niceMax(Math.max(0, ...series.flatMap(s => s.values)))
+  const x = (i: number) => pad.left + (labels.length > 1 ? (i * w) / (labels.length - 1) : w / 2)
+  const y = (v: number) => pad.top + h - (v / max) * h
+  // at most ~8 x labels
+  const every = Math.max(1, Math.ceil(labels.length / 8))
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${height}`} width="100%" role="img" aria-label="Points over time">
+        {[0, 0.5, 1].map(f => (
+          <g key={f}>
+            <line x1={pad.left} x2={W - pad.right} y1={y(max * f)} y2={y(max * f)} stroke={AXIS} strokeDasharray={f ? '3 3' : undefined} />
+            <text x={pad.left - 6} y={y(max * f) + 4} textAnchor="end" fontSize={11} fill={TEXT}>{max * f}</text>
+          </g>
+        ))}
+        {labels.map((l, i) =>
+          i % every === 0 ? (
+            <text key={i} x={x(i)} y={height - 8} textAnchor="middle" fontSize={11} fill={TEXT}>{l}</text>
+          ) : null
+        )}
+        {series.map(s => (
+          <g key={s.name}>
+            <polyline
+              fill="none" stroke={s.color} strokeWidth={2} strokeLinejoin="round"
+              points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+            />
+            {labels.length <= 31 && s.values.map((v, i) => (
+              <circle key={i} cx={x(i)} cy={y(v)} r={2.5} fill={s.color}>
+                <title>{`${s.name} · ${labels[i]}: ${v}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <Legend items={series} />
+    </div>
+  )
+}
+
+// Horizontal bars, one per row. `value` is drawn against `max`.
+export function BarList({
+  rows,
+  max,
+  format = v => String(v),
+  color = PALETTE[0],
+}: {
+  rows: { label: string; value: number; title?: string }[]
+  max: number
+  format?: (v: number) => string
+  color?: string
+}) {
+  if (rows.length === 0) return <div className="muted small">Nothing to show.</div>
+  const W = 640
+  const ROW = 24
+  const labelW = 190
+  const barW = W - labelW - 60
+  return (
+    <svg viewBox={`0 0 ${W} ${rows.length * ROW}`} width="100%" role="img">
+      {rows.map((r, i) => (
+        <g key={r.label} transform={`translate(0 ${i * ROW})`}>
+          <title>{r.title ?? `${r.label}: ${format(r.value)}`}</title>
+          <text x={labelW - 8} y={16} textAnchor="end" fontSize={12} fill="#22313a">
+            {r.label.length > 26 ? r.label.slice(0, 25) + '…' : r.label}
+          </text>
+          <rect x={labelW} y={4} width={barW} height={ROW - 8} rx={4} fill="#eef2f4" />
+          <rect x={labelW} y={4} width={max > 0 ? (Math.min(r.value, max) / max) * barW : 0} height={ROW - 8} rx={4} fill={color} />
+          <text x={labelW + barW + 6} y={16} fontSize={12} fill={TEXT}>{format(r.value)}</text>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+// Rows × columns of 0..1 values, red (0) through green (1); null cells are blank.
+export function Heatmap({
+  rows,
+  cols,
+  values,
+}: {
+  rows: string[]
+  cols: string[]
+  values: (number | null)[][]
+}) {
+  if (rows.length === 0) return <div className="muted small">Nothing to show.</div>
+  const CELL = 44
+  const labelW = 110
+  const W = labelW + cols.length * CELL
+  const H = 20 + rows.length * CELL
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} width="100%" style={{ maxWidth: W * 1.2 }} role="img">
+      {cols.map((c, j) => (
+        <text key={c} x={labelW + j * CELL + CELL / 2} y={14} textAnchor="middle" fontSize={12} fill={TEXT}>{c}</text>
+      ))}
+      {rows.map((r, i) => (
+        <g key={r} transform={`translate(0 ${20 + i * CELL})`}>
+          <text x={labelW - 8} y={CELL / 2 + 4} textAnchor="end" fontSize={12} fill="#22313a">{r}</text>
+          {values[i].map((v, j) => (
+            <g key={j}>
+              <rect
+                x={labelW + j * CELL + 2} y={2} width={CELL - 4} height={CELL - 4} rx={6}
+                fill={v === null ? '#f3f5f6' : `hsl(${Math.round(v * 120)}, 62%, ${78 - v * 18}%)`}
+              >
+                <title>{v === null ? `${r} · ${cols[j]}: nothing due` : `${r} · ${cols[j]}: ${Math.round(v * 100)}%`}</title>
+              </rect>
+              {v !== null && (
+                <text x={labelW + j * CELL + CELL / 2} y={CELL / 2 + 4} textAnchor="middle" fontSize={11} fill="#22313a">
+                  {Math.round(v * 100)}%
+                </text>
+              )}
+            </g>
+          ))}
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+function Legend({ items }: { items: { name: string; color: string }[] }) {
+  return (
+    <div className="row wrap" style={{ gap: '.75rem', justifyContent: 'center' }}>
+      {items.map(s => (
+        <span key={s.name} className="small">
+          <span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: s.color, marginRight: 4 }} />
+          {s.name}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,509 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Chore, ChoreSchedule, ChoreStep, Kid, RoutineId, ScheduleType } from './types'
+import { ROUTINES, byChoreOrder, isActive, nextDueDates, toISO, uid } from './utils'
+
+type Props = {
+  chores: Chore[]
+  kids: Kid[]
+  onSave: (chore: Chore) => void
+  /** Stop the chore from today on; its history stays */
+  onArchive: (choreId: string) => void
+  onRestore: (choreId: string) => void
+  /** Remove the chore and its completions for good */
+  onPurge: (choreId: string) => void
+  /** Chore ids in their new display order */
+  onReorder: (choreIds: string[]) => void
+}
+
+const DOW = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const blankChore = (): Chore => ({
+  id: uid(),
+  title: '',
+  points: 5,
+  icon: '🧹',
+  schedule: { type: 'daily' },
+  kidIds: [],
+  createdISO: toISO(new Date()),
+})
+
+export default function ChoreEditor({ chores, kids, onSave, onArchive, onRestore, onPurge, onReorder }: Props) {
+  const [draft, setDraft] = useState<Chore>(blankChore)
+  const [isNew, setIsNew] = useState(true)
+  const [dragId, setDragId] = useState<string | null>(null)
+
+  const sorted = chores.filter(isActive).sort(byChoreOrder)
+  const archived = chores.filter(ch => !isActive(ch))
+  const pickable = kids.filter(isActive)
+  const kidName = (id: string) => kids.find(k => k.id === id)?.name || '—'
+
+  const valid = draft.title.trim().length > 0 && draft.points >= 0 && draft.kidIds.length > 0
+
+  function startEdit(ch: Chore) {
+    setDraft({ ...ch, schedule: { ...ch.schedule } })
+    setIsNew(false)
+  }
+
+  function reset() {
+    setDraft(blankChore())
+    setIsNew(true)
+  }
+
+  function handleSubmit() {
+    if (!valid) return
+    const steps = (draft.steps ?? []).map(st => ({ ...st, title: st.title.trim() })).filter(st => st.title)
+    onSave({
+      ...draft,
+      title: draft.title.trim(),
+      steps: steps.length ? steps : undefined,
+      stepPoints: steps.length > 1 ? draft.stepPoints : undefined,
+    })
+    reset()
+  }
+
+  const setSteps = (steps: ChoreStep[]) => setDraft({ ...draft, steps })
+
+  function toggleKid(kidId: string) {
+    const kidIds = draft.kidIds.includes(kidId)
+      ? draft.kidIds.filter(id => id !== kidId)
+      : [...draft.kidIds, kidId]
+    setDraft({ ...draft, kidIds })
+  }
+
+  function handleDrop(targetId: string) {
+    if (!dragId || dragId === targetId) return
+    const ids = sorted.map(ch => ch.id).filter(id => id !== dragId)
+    ids.splice(ids.indexOf(targetId), 0, dragId)
+    onReorder(ids)
+    setDragId(null)
+  }
+
+  const preview = nextDueDates(draft, toISO(new Date()), 14)
+
+  return (
+    <div>
+      {/* Editor */}
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <input
+          style={{ width: 50, textAlign: 'center' }} aria-label="Icon"
+          value={draft.icon ?? ''}
+          onChange={e => setDraft({ ...draft, icon: e.target.value })}
+        />
+        <input
+          placeholder="Chore"
+          value={draft.title}
+          onChange={e => setDraft({ ...draft, title: e.target.value })}
+        />
+        <input
+          type="number" min={0} style={{ width: 70 }} title="Points"
+          value={draft.points}
+          onChange={e => setDraft({ ...draft, points: Math.max(0, Number(e.target.value) || 0) })}
+        />
+        <span className="muted small">pts</span>
+      </div>
+
+      <div className="row wrap" style={{ gap: '.4rem', marginBottom: 8 }}>
+        <span className="muted small">For</span>
+        {pickable.length === 0 && <span className="muted small">Add a kid first.</span>}
+        {pickable.map(k => (
+          <button
+            key={k.id}
+            className={`chip ${draft.kidIds.includes(k.id) ? 'on' : ''}`}
+            onClick={() => toggleKid(k.id)}
+          >
+            {draft.rotation && draft.kidIds.includes(k.id) && `${draft.kidIds.indexOf(k.id) + 1}. `}
+            {k.avatar || k.emoji} {k.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <label className="row small" style={{ gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={!!draft.rotation}
+            onChange={e =>
+              setDraft({ ...draft, rotation: e.target.checked ? { startISO: toISO(new Date()) } : undefined })
+            }
+          />
+          Take turns (one kid per day, in the order picked)
+        </label>
+        <label className="row small" style={{ gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={!!draft.requiresApproval}
+            onChange={e => setDraft({ ...draft, requiresApproval: e.target.checked || undefined })}
+          />
+          Needs parent approval
+        </label>
+        <label className="row small" style={{ gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={!!draft.carryOverISO}
+            onChange={e => setDraft({ ...draft, carryOverISO: e.target.checked ? toISO(new Date()) : undefined })}
+          />
+          Carry over until done
+        </label>
+        {draft.rotation && (
+          <>
+            <span className="muted small">starting</span>
+            <input
+              type="date"
+              value={draft.rotation.startISO}
+              onChange={e =>
+                e.target.value && setDraft({ ...draft, rotation: { ...draft.rotation!, startISO: e.target.value } })
+              }
+            />
+          </>
+        )}
+      </div>
+
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <label className="muted small">Routine</label>
+        <select
+          value={draft.routine ?? ''}
+          onChange={e => setDraft({ ...draft, routine: (e.target.value || undefined) as RoutineId | undefined })}
+        >
+          <option value="">Any time</option>
+          {ROUTINES.map(r => <option key={r.id} value={r.id}>{r.icon} {r.label}</option>)}
+        </select>
+        <label className="muted small">due by</label>
+        <input
+          type="time"
+          value={draft.dueTime ?? ''}
+          onChange={e => setDraft({ ...draft, dueTime: e.target.value || undefined })}
+        />
+        {draft.dueTime && (
+          <button className="secondary small" onClick={() => setDraft({ ...draft, dueTime: undefined })}>No due time</button>
+        )}
+      </div>
+
+      <div style={{ marginBottom: 8 }}>
+        <div className="row wrap" style={{ gap: '.5rem' }}>
+          <span className="muted small">Checklist</span>
+          {(draft.steps?.length ?? 0) > 1 && (
+            <select
+              value={draft.stepPoints ?? 'all'}
+              onChange={e => setDraft({ ...draft, stepPoints: e.target.value === 'proportional' ? 'proportional' : undefined })}
+            >
+              <option value="all">Points when every step is done</option>
+              <option value="proportional">Points shared out per step</option>
+            </select>
+          )}
+        </div>
+        {(draft.steps ?? []).map((st, i) => (
+          <div key={st.id} className="row" style={{ gap: '.5rem', marginTop: 4 }}>
+            <span className="muted small">{i + 1}.</span>
+            <input
+              placeholder="Step"
+              value={st.title}
+              onChange={e => setSteps(draft.steps!.map(x => (x.id === st.id ? { ...x, title: e.target.value } : x)))}
+            />
+            <button className="secondary small" onClick={() => setSteps(draft.steps!.filter(x => x.id !== st.id))}>✕</button>
+          </div>
+        ))}
+        <button
+          className="secondary small" style={{ marginTop: 4 }}
+          onClick={() => setSteps([...(draft.steps ?? []), { id: uid(), title: '' }])}
+        >
+          + Step
+        </button>
+      </div>
+
+      <ScheduleBuilder
+        schedule={draft.schedule}
+        onChange={schedule => setDraft({ ...draft, schedule })}
+      />
+
+      <div className="muted small" style={{ margin: '8px 0' }}>
+        Next due:{' '}
+        {preview.length === 0
+          ? 'not in the next year'
+          : preview.map(iso => format(parseISO(iso), 'EEE MMM d')).join(' · ')}
+      </div>
+
+      <div className="row" style={{ gap: '.5rem', marginBottom: 12 }}>
+        <button disabled={!valid} onClick={handleSubmit}>{isNew ? 'Add chore' : 'Save'}</button>
+        {!isNew && <button className="secondary" onClick={reset}>Cancel</button>}
+      </div>
+
+      {/* List (drag to reorder) */}
+      {sorted.length === 0 && <div className="muted">No chores yet.</div>}
+      {sorted.map(ch => (
+        <div
+          key={ch.id}
+          className={`row space drag-row ${dragId === ch.id ? 'dragging' : ''}`}
+          draggable
+          onDragStart={() => setDragId(ch.id)}
+          onDragEnd={() => setDragId(null)}
+          onDragOver={e => e.preventDefault()}
+          onDrop={() => handleDrop(ch.id)}
+        >
+          <div className="left" style={{ gap: '.5rem' }}>
+            <span className="muted" title="Drag to reorder">⋮⋮</span>
+            <span>{ch.icon || '🧹'}</span>
+            <div>
+              <strong>{ch.title}</strong>{' '}
+              <span className="muted small">
+                +{ch.points} · {ch.kidIds.map(kidName).join(ch.rotation ? ' → ' : ', ') || 'nobody'}
+                {ch.routine && ` · ${ROUTINES.find(r => r.id === ch.routine)?.label}`}
+                {ch.dueTime && ` · by ${ch.dueTime}`}
+                {!!ch.steps?.length && ` · ${ch.steps.length} steps`}
+              </span>
+            </div>
+          </div>
+          <div className="left" style={{ gap: '.5rem' }}>
+            <button className="secondary" onClick={() => startEdit(ch)}>Edit</button>
+            <button className="danger" onClick={() => onArchive(ch.id)}>Archive</button>
+          </div>
+        </div>
+      ))}
+
+      {archived.length > 0 && (
+        <details style={{ marginTop: 12 }}>
+          <summary className="muted small">Archived ({archived.length})</summary>
+          {archived.map(ch => (
+            <div key={ch.id} className="row space" style={{ marginTop: 8 }}>
+              <div className="left" style={{ gap: '.5rem' }}>
+                <span>{ch.icon || '🧹'}</span>
+                <span>{ch.title}</span>
+                <span className="muted small">since {ch.archivedISO}</span>
+              </div>
+              <div className="left" style={{ gap: '.5rem' }}>
+                <button className="secondary" onClick={() => onRestore(ch.id)}>Restore</button>
+                <button
+                  className="danger"
+                  onClick={() =>
+                    window.confirm(`Permanently delete "${ch.title}" and every completion of it?`) && onPurge(ch.id)
+                  }
+                >
+                  Delete forever
+                </button>
+              </div>
+            </div>
+          ))}
+        </details>
+      )}
+    </div>
+  )
+}
+
+function ScheduleBuilder({
+  schedule,
+  onChange,
+}: {
+  schedule: ChoreSchedule
+  onChange: (s: ChoreSchedule) => void
+}) {
+  const days = schedule.daysOfWeek ?? []
+  const set = (patch: Partial<ChoreSchedule>) => onChange({ ...schedule, ...patch })
+
+  const toggleDay = (d: number) =>
+    set({ daysOfWeek: days.includes(d) ? days.filter(x => x !== d) : [...days, d].sort((a, b) => a - b) })
+
+  function changeType(type: ScheduleType) {
+    // sensible starting values so the preview isn't empty
+    if (type === 'interval' && !schedule.anchorISO) {
+      return set({ type, every: schedule.every ?? 2, unit: schedule.unit ?? 'week', anchorISO: toISO(new Date()) })
+    }
+    if (type === 'monthly' && !schedule.dayOfMonth && !schedule.nthWeekday) {
+      return set({ type, dayOfMonth: 1 })
+    }
+    set({ type })
+  }
+
+  const weekdayChips = (
+    <div className="row" style={{ gap: '.3rem' }}>
+      {DOW.map((label, d) => (
+        <button
+          key={label}
+          className={`chip ${days.includes(d) ? 'on' : ''}`}
+          onClick={() => toggleDay(d)}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+
+  return (
+    <div>
+      <div className="row" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <label className="muted small">Repeats</label>
+        <select value={schedule.type} onChange={e => changeType(e.target.value as ScheduleType)}>
+          <option value="daily">Every day</option>
+          <option value="weekly">Weekly on…</option>
+          <option value="interval">Every N days / weeks</option>
+          <option value="monthly">Monthly</option>
+          <option value="custom">On specific dates</option>
+        </select>
+      </div>
+
+      {schedule.type === 'weekly' && weekdayChips}
+
+      {schedule.type === 'interval' && (
+        <div>
+          <div className="row wrap" style={{ gap: '.5rem', marginBottom: 6 }}>
+            <span className="muted small">Every</span>
+            <input
+              type="number" min={1} style={{ width: 60 }}
+              value={schedule.every ?? 1}
+              onChange={e => set({ every: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+            />
+            <select value={schedule.unit ?? 'day'} onChange={e => set({ unit: e.target.value as 'day' | 'week' })}>
+              <option value="day">days</option>
+              <option value="week">weeks</option>
+            </select>
+            <span className="muted small">starting</span>
+            <input
+              type="date"
+              value={schedule.anchorISO ?? ''}
+              onChange={e => set({ anchorISO: e.target.value || undefined })}
+            />
+          </div>
+          {schedule.unit === 'week' && (
+            <>
+              <div className="muted small">On (leave empty for the start date's weekday)</div>
+              {weekdayChips}
+            </>
+          )}
+        </div>
+      )}
+
+      {schedule.type === 'monthly' && (
+        <MonthlyPicker schedule={schedule} onChange={onChange} />
+      )}
+
+      {schedule.type === 'custom' && (
+        <DateChips dates={schedule.dates ?? []} onChange={dates => set({ dates })} empty="No dates picked." />
+      )}
+
+      {/* Bounds + skips apply to every type */}
+      <div className="row wrap" style={{ gap: '.5rem', marginTop: 8 }}>
+        <span className="muted small">From</span>
+        <input
+          type="date"
+          value={schedule.startISO ?? ''}
+          onChange={e => set({ startISO: e.target.value || undefined })}
+        />
+        <span className="muted small">until</span>
+        <input
+          type="date"
+          value={schedule.endISO ?? ''}
+          onChange={e => set({ endISO: e.target.value || undefined })}
+        />
+      </div>
+      <div className="muted small" style={{ marginTop: 8 }}>Skip</div>
+      <DateChips
+        dates={schedule.skipDates ?? []}
+        onChange={skipDates => set({ skipDates: skipDates.length ? skipDates : undefined })}
+        empty="No skipped dates."
+      />
+    </div>
+  )
+}
+
+function MonthlyPicker({
+  schedule,
+  onChange,
+}: {
+  schedule: ChoreSchedule
+  onChange: (s: ChoreSchedule) => void
+}) {
+  const byWeekday = !schedule.dayOfMonth
+  const nth = schedule.nthWeekday ?? { n: 1, weekday: 6 }
+
+  return (
+    <div className="row wrap" style={{ gap: '.5rem' }}>
+      <select
+        value={byWeekday ? 'weekday' : 'day'}
+        onChange={e =>
+          onChange(
+            e.target.value === 'day'
+              ? { ...schedule, dayOfMonth: 1, nthWeekday: undefined }
+              : { ...schedule, dayOfMonth: undefined, nthWeekday: nth }
+          )
+        }
+      >
+        <option value="day">On day</option>
+        <option value="weekday">On the</option>
+      </select>
+
+      {!byWeekday && (
+        <input
+          type="number" min={1} max={31} style={{ width: 60 }}
+          value={schedule.dayOfMonth}
+          onChange={e =>
+            onChange({ ...schedule, dayOfMonth: Math.min(31, Math.max(1, Math.floor(Number(e.target.value) || 1))) })
+          }
+        />
+      )}
+
+      {byWeekday && (
+        <>
+          <select
+            value={nth.n}
+            onChange={e => onChange({ ...schedule, nthWeekday: { ...nth, n: Number(e.target.value) } })}
+          >
+            <option value={1}>1st</option>
+            <option value={2}>2nd</option>
+            <option value={3}>3rd</option>
+            <option value={4}>4th</option>
+            <option value={5}>5th</option>
+            <option value={-1}>last</option>
+          </select>
+          <select
+            value={nth.weekday}
+            onChange={e => onChange({ ...schedule, nthWeekday: { ...nth, weekday: Number(e.target.value) } })}
+          >
+            {DOW.map((label, d) => <option key={label} value={d}>{label}</option>)}
+          </select>
+        </>
+      )}
+
+      {!byWeekday && (schedule.dayOfMonth ?? 0) > 28 && (
+        <span className="muted small">Shorter months use their last day.</span>
+      )}
+    </div>
+  )
+}
+
+function DateChips({
+  dates,
+  onChange,
+  empty,
+}: {
+  dates: string[]
+  onChange: (dates: string[]) => void
+  empty: string
+}) {
+  const [pickISO, setPickISO] = useState(toISO(new Date()))
+
+  const addDate = () => {
+    if (!pickISO || dates.includes(pickISO)) return
+    onChange([...dates, pickISO].sort())
+  }
+
+  return (
+    <div>
+      <div className="row" style={{ gap: '.5rem', marginBottom: 6 }}>
+        <input type="date" value={pickISO} onChange={e => setPickISO(e.target.value)} />
+        <button className="secondary" onClick={addDate}>Add date</button>
+      </div>
+      <div className="row wrap" style={{ gap: '.3rem' }}>
+        {dates.length === 0 && <span className="muted small">{empty}</span>}
+        {dates.map(iso => (
+          <button
+            key={iso}
+            className="chip on"
+            title="Remove"
+            onClick={() => onChange(dates.filter(x => x !== iso))}
+          >
+            {format(parseISO(iso), 'MMM d')} ×
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Goal, Kid, State } from './types'
+import { goalProgress, isActive, toISO, uid } from './utils'
+
+type Props = {
+  state: State
+  onSave: (goal: Goal) => void
+  onDelete: (goalId: string) => void
+}
+
+type Form = {
+  kidId: string
+  title: string
+  target: string
+  unit: Goal['unit']
+  deadlineISO: string
+  allocatePercent: string
+}
+
+const blank = (kids: Kid[]): Form => ({
+  kidId: kids[0]?.id ?? '',
+  title: '',
+  target: '100',
+  unit: 'points',
+  deadlineISO: '',
+  allocatePercent: '',
+})
+
+export default function GoalsManager({ state, onSave, onDelete }: Props) {
+  const kids = state.kids.filter(isActive)
+  // form doubles as "add" (editing null) and "edit"
+  const [editing, setEditing] = useState<Goal | null>(null)
+  const [form, setForm] = useState<Form>(() => blank(kids))
+
+  function startEdit(g: Goal) {
+    setEditing(g)
+    setForm({
+      kidId: g.kidId,
+      title: g.title,
+      target: String(g.target),
+      unit: g.unit,
+      deadlineISO: g.deadlineISO ?? '',
+      allocatePercent: g.allocatePercent ? String(g.allocatePercent) : '',
+    })
+  }
+
+  function reset() {
+    setEditing(null)
+    setForm(blank(kids))
+  }
+
+  function handleSubmit() {
+    const title = form.title.trim()
+    const target = Number(form.target)
+    const kidId = form.kidId || kids[0]?.id
+    if (!title || !(target > 0) || !kidId) return
+    const pct = Math.min(100, Math.max(0, Math.round(Number(form.allocatePercent) || 0)))
+    onSave({
+      id: editing?.id ?? uid(),
+      kidId,
+      title,
+      target,
+      unit: form.unit,
+      deadlineISO: form.deadlineISO || undefined,
+      allocatePercent: pct || undefined,
+      createdISO: editing?.createdISO ?? toISO(new Date()),
+    })
+    reset()
+  }
+
+  const kidName = (id: string) => state.kids.find(k => k.id === id)?.name || '—'
+
+  return (
+    <div>
+      {/* Add / edit */}
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 12 }}>
+        <select value={form.kidId} onChange={e => setForm({ ...form, kidId: e.target.value })}>
+          {kids.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+        </select>
+        <input
+          placeholder="Saving for…"
+          value={form.title}
+          onChange={e => setForm({ ...form, title: e.target.value })}
+        />
+        <input
+          type="number" min={1} style={{ width: 80 }} title="Target"
+          value={form.target}
+          onChange={e => setForm({ ...form, target: e.target.value })}
+        />
+        <select value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value as Goal['unit'] })}>
+          <option value="points">points</option>
+          <option value="dollars">dollars</option>
+        </select>
+        <label className="muted small">by</label>
+        <input
+          type="date"
+          value={form.deadlineISO}
+          onChange={e => setForm({ ...form, deadlineISO: e.target.value })}
+        />
+        <input
+          type="number" min={0} max={100} style={{ width: 70 }} placeholder="Save %"
+          title="Set aside this % of everything earned (blank = count the whole balance)"
+          value={form.allocatePercent}
+          onChange={e => setForm({ ...form, allocatePercent: e.target.value })}
+        />
+        <button onClick={handleSubmit} disabled={kids.length === 0}>{editing ? 'Save' : 'Add'}</button>
+        {editing && <button className="secondary" onClick={reset}>Cancel</button>}
+      </div>
+
+      {/* Goals */}
+      {state.goals.length === 0 && <div className="muted">No goals yet.</div>}
+      {state.goals.map(g => {
+        const p = goalProgress(state, g)
+        return (
+          <div key={g.id} className="row space" style={{ marginBottom: 8 }}>
+            <div>
+              <strong>{g.title}</strong> <span className="muted small">· {kidName(g.kidId)}</span>
+              <div className="muted small">
+                {g.unit === 'dollars' ? `$${g.target} (${p.target} pts)` : `${g.target} pts`}
+                {g.allocatePercent && ` · saves ${g.allocatePercent}%`}
+                {g.deadlineISO && ` · by ${format(parseISO(g.deadlineISO), 'MMM d')}`}
+                {' · '}
+                {p.reached ? 'reached 🎉' : `${p.saved}/${p.target}`}
+              </div>
+            </div>
+            <div className="left" style={{ gap: '.5rem' }}>
+              <button className="secondary" onClick={() => startEdit(g)}>Edit</button>
+              <button className="danger" onClick={() => onDelete(g.id)}>
+                {p.reached ? 'Done' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+import React, { useState } from 'react'
+import { JarEntry, JarName, Jars, Kid, State } from './types'
+import { JAR_NAMES, jarBalances, kidSplit, splitAmount } from './utils'
+
+type Props = {
+  state: State
+  /** Kids matching the Reports kid filter */
+  kids: Kid[]
+  startISO: string
+  endISO: string
+  onJarEntry: (entry: Omit<JarEntry, 'id' | 'timestampISO'>) => void
+  onSetSplit: (kidId: string, jars: Jars) => void
+}
+
+type Mode = 'add' | 'take' | 'move'
+
+const LABEL: Record<JarName, string> = { spend: 'Spend', save: 'Save', give: 'Give' }
+const money = (n: number) => `$${n.toFixed(2)}`
+
+export default function JarsPanel({ state, kids, startISO, endISO, onJarEntry, onSetSplit }: Props) {
+  // one open editor at a time: a kid's split, or money in/out/between jars
+  const [open, setOpen] = useState<{ kidId: string; form: 'split' | 'money' } | null>(null)
+  const [split, setSplit] = useState<Record<JarName, string>>({ spend: '', save: '', give: '' })
+  const [mode, setMode] = useState<Mode>('add')
+  const [amount, setAmount] = useState('')
+  const [from, setFrom] = useState<JarName>('spend')
+  const [to, setTo] = useState<JarName>('save')
+  const [note, setNote] = useState('')
+
+  function openSplit(kid: Kid) {
+    const cur = kidSplit(kid)
+    setSplit({ spend: String(cur.spend), save: String(cur.save), give: String(cur.give) })
+    setOpen({ kidId: kid.id, form: 'split' })
+  }
+
+  function openMoney(kid: Kid) {
+    setMode('add'); setAmount(''); setNote('')
+    setOpen({ kidId: kid.id, form: 'money' })
+  }
+
+  const kid = open ? kids.find(k => k.id === open.kidId) : undefined
+  const balance = kid ? jarBalances(state, kid.id) : null
+
+  const splitNums = { spend: Number(split.spend) || 0, save: Number(split.save) || 0, give: Number(split.give) || 0 }
+  const splitTotal = splitNums.spend + splitNums.save + splitNums.give
+  const splitValid = splitTotal === 100 && JAR_NAMES.every(j => splitNums[j] >= 0)
+
+  const dollars = Math.round((Number(amount) || 0) * 100) / 100
+  const moneyProblem =
+    dollars <= 0 ? 'Enter an amount.' :
+    mode === 'move' && from === to ? 'Pick two different jars.' :
+    mode !== 'add' && balance && dollars > balance[from] ? `Only ${money(balance[from])} in ${LABEL[from]}.` :
+    null
+
+  function saveSplit() {
+    if (!kid || !splitValid) return
+    onSetSplit(kid.id, splitNums)
+    setOpen(null)
+  }
+
+  function saveMoney() {
+    if (!kid || moneyProblem) return
+    const none: Jars = { spend: 0, save: 0, give: 0 }
+    const amounts: Jars =
+      mode === 'add' ? splitAmount(dollars, kidSplit(kid)) :
+      mode === 'take' ? { ...none, [from]: -dollars } :
+      { ...none, [from]: -dollars, [to]: dollars }
+    onJarEntry({ kidId: kid.id, amounts, note: note.trim() || undefined })
+    setOpen(null)
+  }
+
+  return (
+    <div>
+      <table className="rep">
+        <thead>
+        <tr>
+          <th>Kid</th>
+          {JAR_NAMES.map(j => <th key={j}>{LABEL[j]}</th>)}
+          <th>Total</th>
+          <th>Split</th>
+          <th></th>
+        </tr>
+        </thead>
+        <tbody>
+        {kids.length === 0 && (
+          <tr><td colSpan={6} className="muted">No kids.</td></tr>
+        )}
+        {kids.map(k => {
+          const all = jarBalances(state, k.id)
+          const win = jarBalances(state, k.id, startISO, endISO)
+          const s = kidSplit(k)
+          return (
+            <tr key={k.id}>
+              <td>{k.name}</td>
+              {JAR_NAMES.map(j => (
+                <td key={j}>
+                  {money(all[j])}
+                  {win[j] !== 0 && (
+                    <div className="muted small">{win[j] > 0 ? '+' : '−'}{money(Math.abs(win[j]))} in window</div>
+                  )}
+                </td>
+              ))}
+              <td><b>{money(all.spend + all.save + all.give)}</b></td>
+              <td>{s.spend}/{s.save}/{s.give}</td>
+              <td>
+                <div className="row" style={{ gap: 6 }}>
+                  <button className="secondary small" onClick={() => openSplit(k)}>Split</button>
+                  <button className="small" onClick={() => openMoney(k)}>Money…</button>
+                </div>
+              </td>
+            </tr>
+          )
+        })}
+        </tbody>
+      </table>
+
+      {kid && open?.form === 'split' && (
+        <div className="row wrap" style={{ gap: '.5rem', marginTop: 10 }}>
+          <strong>{kid.name}'s split:</strong>
+          {JAR_NAMES.map(j => (
+            <label key={j} className="row" style={{ gap: 4 }}>
+              {LABEL[j]}
+              <input
+                type="number" min={0} max={100} style={{ width: 64 }}
+                value={split[j]}
+                onChange={e => setSplit({ ...split, [j]: e.target.value })}
+              />%
+            </label>
+          ))}
+          <button onClick={saveSplit} disabled={!splitValid}>Save</button>
+          <button className="secondary" onClick={() => setOpen(null)}>Cancel</button>
+          {!splitValid && <span className="muted small">Adds up to {splitTotal}%, needs 100%.</span>}
+        </div>
+      )}
+
+      {kid && open?.form === 'money' && (
+        <div className="row wrap" style={{ gap: '.5rem', marginTop: 10 }}>
+          <strong>{kid.name}:</strong>
+          <select value={mode} onChange={e => setMode(e.target.value as Mode)}>
+            <option value="add">Add money (split)</option>
+            <option value="take">Take out</option>
+            <option value="move">Move</option>
+          </select>
+          <input
+            type="number" min={0} step={0.01} style={{ width: 80 }} placeholder="$"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+          />
+          {mode !== 'add' && (
+            <>
+              <label className="muted small">from</label>
+              <select value={from} onChange={e => setFrom(e.target.value as JarName)}>
+                {JAR_NAMES.map(j => <option key={j} value={j}>{LABEL[j]}</option>)}
+              </select>
+            </>
+          )}
+          {mode === 'move' && (
+            <>
+              <label className="muted small">to</label>
+              <select value={to} onChange={e => setTo(e.target.value as JarName)}>
+                {JAR_NAMES.map(j => <option key={j} value={j}>{LABEL[j]}</option>)}
+              </select>
+            </>
+          )}
+          <input placeholder="Note (optional)" value={note} onChange={e => setNote(e.target.value)} />
+          <button onClick={saveMoney} disabled={!!moneyProblem}>Save</button>
+          <button className="secondary" onClick={() => setOpen(null)}>Cancel</button>
+          {moneyProblem && amount && <span className="muted small">{moneyProblem}</span>}
+        </div>
+      )}
+
+      <div className="muted small" style={{ marginTop: 6 }}>
+        Payouts and added money are split by each kid's percentages. Point adjustments in a payout
+        keep the percentages from when they were made.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from "react";
+
+type Props = {
+  /** 'unlock' asks for the PIN once; 'set' asks for a new PIN twice */
+  mode: "unlock" | "set" | null;
+  /** Resolves false when an unlock PIN is wrong, rejects when it can't be checked (the dialog stays open) */
+  onSubmit: (pin: string) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export default function PinDialog({ mode, onSubmit, onClose }: Props) {
+  const [pin, setPin] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPin("");
+    setConfirm("");
+    setError(null);
+  }, [mode]);
+
+  // Escape to close
+  useEffect(() => {
+    if (!mode) return;
+    const onEsc = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onEsc);
+    return () => window.removeEventListener("keydown", onEsc);
+  }, [mode, onClose]);
+
+  if (!mode) return null;
+
+  const submit = async () => {
+    if (!/^\d{4,8}$/.test(pin)) {
+      setError("Use 4 to 8 digits.");
+      return;
+    }
+    if (mode === "set" && pin !== confirm) {
+      setError("PINs don't match.");
+      return;
+    }
+    try {
+      if (!(await onSubmit(pin))) {
+        setError("Wrong PIN.");
+        setPin("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const field = (value: string, set: (v: string) => void, label: string, autoFocus = false) => (
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      aria-label={label}
+      placeholder={label}
+      autoFocus={autoFocus}
+      style={styles.input}
+      value={value}
+      onChange={e => { set(e.target.value.replace(/\D/g, "")); setError(null); }}
+      onKeyDown={e => e.key === "Enter" && submit()}
+    />
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" aria-label="Parent PIN" style={styles.backdrop}>
+      <div className="card" style={styles.card}>
+        <h3 style={{ marginTop: 0 }}>{mode === "set" ? "Set parent PIN" : "Parent mode"}</h3>
+
+        {field(pin, setPin, mode === "set" ? "New PIN" : "PIN", true)}
+        {mode === "set" && field(confirm, setConfirm, "Repeat PIN")}
+
+        {error && <div className="small" style={{ color: "#b1103a" }}>{error}</div>}
+
+        <div className="row" style={{ justifyContent: "flex-end", marginTop: 12 }}>
+          <button className="secondary" onClick={onClose}>Cancel</button>
+          <button onClick={submit}>{mode === "set" ? "Save PIN" : "Unlock"}</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    background: "rgba(0,0,0,.35)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 9999,
+  },
+  card: {
+    width: "min(340px, 92vw)",
+    boxShadow: "0 10px 30px rgba(0,0,0,.2)",
+  },
+  input: {
+    width: "100%",
+    marginBottom: 8,
+    fontSize: "1.4rem",
+    letterSpacing: ".4em",
+    textAlign: "center",
+  },
+};
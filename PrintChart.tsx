@@ -0,0 +1,112 @@
+import React, { useState } from 'react'
+import { addDays, format, parseISO } from 'date-fns'
+import { Chore, Kid, State } from './types'
+import { choresDueFor, isActive, toISO, weekRange } from './utils'
+
+type Props = {
+  state: State
+  /** Any date in the week to print */
+  dateISO: string
+  onClose: () => void
+}
+
+type Layout = 'per-kid' | 'combined'
+
+// One kid's chart: chores due at least once this week × the 7 days.
+type KidWeek = { kid: Kid; rows: { chore: Chore; due: boolean[] }[] }
+
+export default function PrintChart({ state, dateISO, onClose }: Props) {
+  const [weekOf, setWeekOf] = useState(dateISO)
+  const [layout, setLayout] = useState<Layout>('per-kid')
+
+  const { startISO, endISO } = weekRange(parseISO(weekOf))
+  const days = Array.from({ length: 7 }, (_, i) => toISO(addDays(parseISO(startISO), i)))
+
+  const weeks: KidWeek[] = state.kids.filter(isActive).map(kid => {
+    const byId = new Map<string, { chore: Chore; due: boolean[] }>()
+    days.forEach((iso, i) => {
+      for (const ch of choresDueFor(state, kid.id, iso)) {
+        if (!byId.has(ch.id)) byId.set(ch.id, { chore: ch, due: days.map(() => false) })
+        byId.get(ch.id)!.due[i] = true
+      }
+    })
+    return { kid, rows: [...byId.values()] }
+  })
+
+  const title = `${format(parseISO(startISO), 'MMM d')} – ${format(parseISO(endISO), 'MMM d, yyyy')}`
+
+  return (
+    <div>
+      <div className="row space no-print" style={{ marginBottom: 12 }}>
+        <div className="row">
+          <button className="secondary" onClick={onClose}>‹ Back</button>
+          <input type="date" value={weekOf} onChange={e => e.target.value && setWeekOf(e.target.value)} />
+          <select value={layout} onChange={e => setLayout(e.target.value as Layout)}>
+            <option value="per-kid">One page per kid</option>
+            <option value="combined">All kids on one page</option>
+          </select>
+        </div>
+        <button onClick={() => window.print()}>🖨 Print</button>
+      </div>
+
+      {layout === 'per-kid' &&
+        weeks.map(w => (
+          <section key={w.kid.id} className="print-page">
+            <h2 className="print-title">
+              <span className="print-avatar">{w.kid.avatar || w.kid.emoji || '😀'}</span>
+              {w.kid.name} · {title}
+            </h2>
+            <ChartTable days={days} rows={w.rows} />
+          </section>
+        ))}
+
+      {layout === 'combined' && (
+        <section className="print-page">
+          <h2 className="print-title">Chores · {title}</h2>
+          {weeks.map(w => (
+            <div key={w.kid.id} style={{ marginBottom: 14 }}>
+              <h3 className="print-title">
+                <span className="print-avatar">{w.kid.avatar || w.kid.emoji || '😀'}</span>
+                {w.kid.name}
+              </h3>
+              <ChartTable days={days} rows={w.rows} />
+            </div>
+          ))}
+        </section>
+      )}
+
+      {weeks.length === 0 && <div className="muted">No kids yet.</div>}
+    </div>
+  )
+}
+
+function ChartTable({ days, rows }: { days: string[]; rows: KidWeek['rows'] }) {
+  if (rows.length === 0) return <div className="muted">No chores this week.</div>
+  return (
+    <table className="print-chart">
+      <thead>
+        <tr>
+          <th>Chore</th>
+          <th>Pts</th>
+          {days.map(iso => (
+            <th key={iso}>
+              {format(parseISO(iso), 'EEE')}
+              <div className="small muted">{format(parseISO(iso), 'M/d')}</div>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ chore, due }) => (
+          <tr key={chore.id}>
+            <td>{chore.icon || '🧹'} {chore.title}</td>
+            <td>+{chore.points}</td>
+            {due.map((d, i) => (
+              <td key={days[i]} className="print-box">{d ? '☐' : ''}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
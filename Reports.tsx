@@ -1,13 +1,24 @@
 import React, { useMemo, useState } from 'react'
-import { format, parseISO, addDays } from 'date-fns'
-import { State } from './types'
+import { format, parseISO, addDays, isValid } from 'date-fns'
+import { AdjustmentLog, JarEntry, Jars, PayoutPeriod, State } from './types'
+import { JAR_NAMES, earnedPoints, isActive, jarBalances, kidBalance, pointsToDollars, toISO } from './utils'
+import { downloadCSV } from './csv'
+import TrendsPanel from './TrendsPanel'
+import JarsPanel from './JarsPanel'
+import { missedBetween } from './missed'
 
 type Props = {
   state: State
-  onPayout: (kidId: string, period: 'weekly'|'monthly', startISO: string, endISO: string, points: number) => void
+  /** `adjustments` are the point adjustments counted in `points` */
+  onPayout: (
+    kidId: string, period: PayoutPeriod, startISO: string, endISO: string, points: number, adjustments: AdjustmentLog[]
+  ) => void
+  onSetDollarsPerPoint: (rate: number) => void
+  onJarEntry: (entry: Omit<JarEntry, 'id' | 'timestampISO'>) => void
+  onSetJarSplit: (kidId: string, jars: Jars) => void
 }
 
-export default function Reports({ state, onPayout }: Props) {
+export default function Reports({ state, onPayout, onSetDollarsPerPoint, onJarEntry, onSetJarSplit }: Props) {
   const kids = state.kids
   const chores = state.chores
 
@@ -22,38 +33,58 @@ export default function Reports({ state, onPayout }: Props) {
 
   const start = parseISO(startISO)
   const end   = parseISO(endISO)
-
-  // Helper maps
-  const choreById = useMemo(() => {
-    const m = new Map<string, number>()
-    for (const ch of chores) m.set(ch.id, ch.points)
-    return m
-  }, [chores])
+  // a cleared date input gives ''
+  const validRange = isValid(start) && isValid(end)
+  // by calendar day, so a timestamp late on the window's last day is in it
+  const inWindow = (timestampISO: string) => {
+    const day = toISO(parseISO(timestampISO))
+    return day >= startISO && day <= endISO
+  }
 
   const kidName = (id: string) => kids.find(k => k.id === id)?.name || '—'
 
   // --- Reduce logs into the filtered window ---
   const adjFiltered = state.adjustments
-    .filter(a => (kidId === 'all' || a.kidId === kidId) && between(parseISO(a.timestampISO), start, end))
+    .filter(a => (kidId === 'all' || a.kidId === kidId) && inWindow(a.timestampISO))
     .sort((a,b) => b.timestampISO.localeCompare(a.timestampISO))
 
-  const bonusFiltered = state.streakBonuses
+  const bonusFiltered = state.bonuses
     .filter(b => (kidId === 'all' || b.kidId === kidId) && between(parseISO(b.dateISO), start, end))
     .sort((a,b) => b.dateISO.localeCompare(a.dateISO))
 
+  const redemptionsFiltered = state.redemptions
+    .filter(r => (kidId === 'all' || r.kidId === kidId) && inWindow(r.timestampISO))
+    .sort((a,b) => b.timestampISO.localeCompare(a.timestampISO))
+
+  // Payouts whose paid window overlaps the filter window
+  const payoutsFiltered = state.payouts
+    .filter(p => (kidId === 'all' || p.kidId === kidId) && p.startISO <= endISO && p.endISO >= startISO)
+    .sort((a,b) => b.timestampISO.localeCompare(a.timestampISO))
+
+  // Money into and out of each jar: payouts land in them, plus parent entries
+  const jarHistory = [
+    ...state.payouts.map(p => ({
+      id: p.id, kidId: p.kidId, timestampISO: p.timestampISO, what: 'Payout', amounts: p.jars, note: `${p.points} pts`
+    })),
+    ...state.jarEntries.map(e => ({
+      id: e.id, kidId: e.kidId, timestampISO: e.timestampISO, what: jarEntryKind(e), amounts: e.amounts, note: e.note
+    })),
+  ]
+    .filter(r => (kidId === 'all' || r.kidId === kidId) && inWindow(r.timestampISO))
+    .sort((a,b) => b.timestampISO.localeCompare(a.timestampISO))
+
   // Chore points earned (from completions) in window
   const completionPoints = useMemo(() => {
     const perKid: Record<string, number> = {}
     for (const c of state.completions) {
-      if (!c.completed) continue
-      const d = parseISO(c.date)
+      const d = parseISO(c.dateISO)
       if (!between(d, start, end)) continue
       if (kidId !== 'all' && c.kidId !== kidId) continue
-      const pts = choreById.get(c.choreId) ?? 0
-      perKid[c.kidId] = (perKid[c.kidId] || 0) + pts
+      // points as awarded, not the chore's current value
+      perKid[c.kidId] = (perKid[c.kidId] || 0) + earnedPoints(c)
     }
     return perKid
-  }, [state.completions, startISO, endISO, kidId, choreById, start, end])
+  }, [state.completions, startISO, endISO, kidId, start, end])
 
   // Manual adjustments totals in window
   const adjustmentsTotal: Record<string, number> = {}
@@ -67,6 +98,17 @@ export default function Reports({ state, onPayout }: Props) {
     bonusTotal[b.kidId] = (bonusTotal[b.kidId] || 0) + b.points
   }
 
+  // Points spent on rewards in window (rejected requests cost nothing)
+  const redeemedTotal: Record<string, number> = {}
+  for (const r of redemptionsFiltered) {
+    if (r.status === 'rejected') continue
+    redeemedTotal[r.kidId] = (redeemedTotal[r.kidId] || 0) + r.cost
+  }
+
+  // Missed chores count finished days only
+  const yesterdayISO = format(addDays(today, -1), 'yyyy-MM-dd')
+  const missedEndISO = endISO < yesterdayISO ? endISO : yesterdayISO
+
   // Build summary rows by kid
   const summaryRows = kids
     .filter(k => kidId === 'all' || k.id === kidId)
@@ -74,19 +116,95 @@ export default function Reports({ state, onPayout }: Props) {
       const choresPts = completionPoints[k.id] || 0
       const adjPts = adjustmentsTotal[k.id] || 0
       const bonusPts = bonusTotal[k.id] || 0
-      const net = choresPts + adjPts + bonusPts
-      return { kid: k, choresPts, adjPts, bonusPts, net }
+      const redeemedPts = redeemedTotal[k.id] || 0
+      const net = choresPts + adjPts + bonusPts - redeemedPts
+      const balance = kidBalance(state, k.id)
+      const missed = validRange ? missedBetween(state, k.id, startISO, missedEndISO).length : 0
+      return { kid: k, choresPts, adjPts, bonusPts, redeemedPts, net, balance, missed }
     })
+    // archived kids only show up for windows they have history in
+    .filter(r => isActive(r.kid) || r.choresPts || r.adjPts || r.bonusPts || r.redeemedPts)
     // show highest net first
     .sort((a,b) => b.net - a.net)
 
+  // Kids charted under Trends (archived ones only when picked explicitly)
+  const trendKids = useMemo(
+    () => kids.filter(k => (kidId === 'all' ? isActive(k) : k.id === kidId)),
+    [kids, kidId]
+  )
+
+  // Kids whose jars are listed: same filter, plus archived kids with money left
+  const jarKids = kids.filter(k => {
+    if (kidId !== 'all') return k.id === kidId
+    if (isActive(k)) return true
+    const j = jarBalances(state, k.id)
+    return JAR_NAMES.some(n => j[n] !== 0)
+  })
+
+  // --- CSV exports (same kid/date filters as the tables) ---
+  const csvName = (table: string) => `loop-${table}-${startISO}-to-${endISO}.csv`
+
+  function exportSummary() {
+    downloadCSV(csvName('summary'),
+      ['Kid', 'Chore points', 'Missed', 'Adjustments', 'Streak bonuses', 'Redeemed', 'Net points', 'Value ($)', 'Balance'],
+      summaryRows.map(r => [r.kid.name, r.choresPts, r.missed, r.adjPts, r.bonusPts, -r.redeemedPts, r.net,
+        pointsToDollars(r.net, state.settings).toFixed(2), r.balance]))
+  }
+
+  // one row per completion: the per-day detail behind "Chore points"
+  function exportCompletions() {
+    const rows = state.completions
+      .filter(c => (kidId === 'all' || c.kidId === kidId) && between(parseISO(c.dateISO), start, end))
+      .sort((a,b) => a.dateISO.localeCompare(b.dateISO) || kidName(a.kidId).localeCompare(kidName(b.kidId)))
+      .map(c => {
+        const ch = chores.find(x => x.id === c.choreId)
+        return [c.dateISO, format(parseISO(c.dateISO), 'EEE'), kidName(c.kidId), ch?.title ?? '(removed chore)',
+          c.status, earnedPoints(c)]
+      })
+    downloadCSV(csvName('completions'), ['Date', 'Day', 'Kid', 'Chore', 'Status', 'Points'], rows)
+  }
+
+  function exportPayouts() {
+    downloadCSV(csvName('payouts'),
+      ['Paid at', 'Kid', 'Period', 'From', 'To', 'Points', 'Amount ($)', 'Spend ($)', 'Save ($)', 'Give ($)'],
+      payoutsFiltered.map(p => [p.timestampISO, kidName(p.kidId), p.period, p.startISO, p.endISO, p.points, p.amount.toFixed(2),
+        ...JAR_NAMES.map(j => p.jars[j].toFixed(2))]))
+  }
+
+  function exportAdjustments() {
+    downloadCSV(csvName('adjustments'), ['When', 'Kid', 'Delta', 'Reason'],
+      adjFiltered.map(a => [a.timestampISO, kidName(a.kidId), a.delta, a.reason ?? '']))
+  }
+
+  function exportRedemptions() {
+    downloadCSV(csvName('redemptions'), ['When', 'Kid', 'Reward', 'Cost', 'Status'],
+      redemptionsFiltered.map(r => [r.timestampISO, kidName(r.kidId), r.title, r.cost, r.status]))
+  }
+
+  function exportJarHistory() {
+    downloadCSV(csvName('jars'), ['When', 'Kid', 'What', 'Spend ($)', 'Save ($)', 'Give ($)', 'Note'],
+      jarHistory.map(r => [r.timestampISO, kidName(r.kidId), r.what, ...JAR_NAMES.map(j => r.amounts[j].toFixed(2)),
+        r.note ?? '']))
+  }
+
+  function exportBonuses() {
+    downloadCSV(csvName('bonuses'), ['Date', 'Kid', 'Streak (days)', 'Points'],
+      bonusFiltered.map(b => [b.dateISO, kidName(b.kidId), b.streakLength, b.points]))
+  }
+
   // quick helpers
   function handleMarkPaid(rowKidId: string) {
     const net = summaryRows.find(r => r.kid.id === rowKidId)?.net || 0
+    if (!validRange) { alert('Pick both dates first.'); return }
     if (net <= 0) { alert('No points in this window.'); return }
-    const period: 'weekly'|'monthly' = (window.prompt('Period label (weekly/monthly)?', 'weekly') as any) || 'weekly'
-    onPayout(rowKidId, period, startISO, endISO, net)
-    alert('Marked paid (record saved in payouts).')
+    const overlap = state.payouts.find(p => p.kidId === rowKidId && p.startISO <= endISO && p.endISO >= startISO)
+    if (overlap) {
+      alert(`Already paid ${fmtDate(overlap.startISO)} – ${fmtDate(overlap.endISO)} for ${kidName(rowKidId)}.`)
+      return
+    }
+    const period: PayoutPeriod = window.prompt('Period label (weekly/monthly)?', 'weekly') === 'monthly' ? 'monthly' : 'weekly'
+    onPayout(rowKidId, period, startISO, endISO, net, adjFiltered.filter(a => a.kidId === rowKidId))
+    alert(`Marked paid: ${net} points = ${fmtMoney(pointsToDollars(net, state.settings))}.`)
   }
 
   return (
@@ -100,7 +218,12 @@ export default function Reports({ state, onPayout }: Props) {
             <label>Kid</label>
             <select value={kidId} onChange={e=>setKidId(e.target.value)}>
               <option value="all">All kids</option>
-              {kids.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+              {kids.filter(isActive).map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+              {kids.some(k => !isActive(k)) && (
+                <optgroup label="Archived">
+                  {kids.filter(k => !isActive(k)).map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+                </optgroup>
+              )}
             </select>
           </div>
 
@@ -118,29 +241,43 @@ export default function Reports({ state, onPayout }: Props) {
 
       {/* Summary */}
       <div className="card" style={{marginBottom: '10px'}}>
-        <h3>Summary by Kid</h3>
+        <div className="row space">
+          <h3>Summary by Kid</h3>
+          <div className="row" style={{gap:6}}>
+            <button className="secondary small" onClick={exportSummary}>CSV</button>
+            <button className="secondary small" onClick={exportCompletions}>Daily detail CSV</button>
+          </div>
+        </div>
         <table className="rep">
           <thead>
           <tr>
             <th>Kid</th>
             <th>Chore points</th>
+            <th title="Due chores left undone, up to yesterday">Missed</th>
             <th>Adjustments</th>
             <th>Streak bonuses</th>
+            <th>Redeemed</th>
             <th>Net points</th>
+            <th>Value</th>
+            <th>Balance</th>
             <th></th>
           </tr>
           </thead>
           <tbody>
           {summaryRows.length === 0 && (
-            <tr><td colSpan={6} className="muted">No activity in this window.</td></tr>
+            <tr><td colSpan={10} className="muted">No activity in this window.</td></tr>
           )}
           {summaryRows.map(r => (
             <tr key={r.kid.id}>
-              <td>{r.kid.name}</td>
+              <td>{r.kid.name}{!isActive(r.kid) && <span className="muted small"> (archived)</span>}</td>
               <td>{r.choresPts}</td>
+              <td>{r.missed || '—'}</td>
               <td>{fmtSigned(r.adjPts)}</td>
               <td>+{r.bonusPts}</td>
+              <td>{fmtSigned(-r.redeemedPts)}</td>
               <td><b>{r.net}</b></td>
+              <td>{fmtMoney(pointsToDollars(r.net, state.settings))}</td>
+              <td>{r.balance}</td>
               <td>
                 <button className="small" onClick={()=>handleMarkPaid(r.kid.id)}>Mark Paid</button>
               </td>
@@ -150,9 +287,105 @@ export default function Reports({ state, onPayout }: Props) {
         </table>
       </div>
 
+      {/* Jars */}
+      <div className="card" style={{marginBottom:'10px'}}>
+        <h3>Jars</h3>
+        <JarsPanel
+          state={state} kids={jarKids} startISO={startISO} endISO={endISO}
+          onJarEntry={onJarEntry} onSetSplit={onSetJarSplit}
+        />
+      </div>
+
+      {/* Jar history */}
+      <div className="card" style={{marginBottom:'10px'}}>
+        <div className="row space">
+          <h3>Jar History</h3>
+          <button className="secondary small" onClick={exportJarHistory}>CSV</button>
+        </div>
+        <table className="rep">
+          <thead>
+          <tr>
+            <th>When</th>
+            <th>Kid</th>
+            <th>What</th>
+            {JAR_NAMES.map(j => <th key={j}>{j[0].toUpperCase() + j.slice(1)}</th>)}
+            <th>Note</th>
+          </tr>
+          </thead>
+          <tbody>
+          {jarHistory.length === 0 && (
+            <tr><td colSpan={7} className="muted">No jar money in this window.</td></tr>
+          )}
+          {jarHistory.map(r => (
+            <tr key={r.id}>
+              <td>{fmtDateTime(r.timestampISO)}</td>
+              <td>{kidName(r.kidId)}</td>
+              <td>{r.what}</td>
+              {JAR_NAMES.map(j => <td key={j}>{r.amounts[j] ? fmtSignedMoney(r.amounts[j]) : '—'}</td>)}
+              <td>{r.note || '—'}</td>
+            </tr>
+          ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Trends */}
+      <div className="card" style={{marginBottom:'10px'}}>
+        <h3>Trends</h3>
+        <TrendsPanel state={state} kids={trendKids} startISO={startISO} endISO={endISO} />
+      </div>
+
+      {/* Payout history */}
+      <div className="card" style={{marginBottom:'10px'}}>
+        <div className="row space">
+          <h3>Payouts</h3>
+          <div className="row" style={{gap:6}}>
+            <button className="secondary small" onClick={exportPayouts}>CSV</button>
+            <label>$ per point</label>
+            <input
+              type="number" min={0} step={0.01} style={{width: 80}}
+              value={state.settings.dollarsPerPoint}
+              onChange={e=>onSetDollarsPerPoint(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+        <table className="rep">
+          <thead>
+          <tr>
+            <th>Paid</th>
+            <th>Kid</th>
+            <th>Period</th>
+            <th>Window</th>
+            <th>Points</th>
+            <th>Amount</th>
+            <th>Spend / Save / Give</th>
+          </tr>
+          </thead>
+          <tbody>
+          {payoutsFiltered.length === 0 && (
+            <tr><td colSpan={7} className="muted">No payouts in this window.</td></tr>
+          )}
+          {payoutsFiltered.map(p => (
+            <tr key={p.id}>
+              <td>{fmtDateTime(p.timestampISO)}</td>
+              <td>{kidName(p.kidId)}</td>
+              <td>{p.period}</td>
+              <td>{fmtDate(p.startISO)} – {fmtDate(p.endISO)}</td>
+              <td>{p.points}</td>
+              <td>{fmtMoney(p.amount)}</td>
+              <td className="muted">{JAR_NAMES.map(j => fmtMoney(p.jars[j])).join(' / ')}</td>
+            </tr>
+          ))}
+          </tbody>
+        </table>
+      </div>
+
       {/* Adjustments log */}
       <div className="card" style={{marginBottom:'10px'}}>
-        <h3>Adjustments (reasons)</h3>
+        <div className="row space">
+          <h3>Adjustments (reasons)</h3>
+          <button className="secondary small" onClick={exportAdjustments}>CSV</button>
+        </div>
         <table className="rep">
           <thead>
           <tr>
@@ -178,9 +411,45 @@ export default function Reports({ state, onPayout }: Props) {
         </table>
       </div>
 
+      {/* Redemption log */}
+      <div className="card" style={{marginBottom:'10px'}}>
+        <div className="row space">
+          <h3>Reward Redemptions</h3>
+          <button className="secondary small" onClick={exportRedemptions}>CSV</button>
+        </div>
+        <table className="rep">
+          <thead>
+          <tr>
+            <th>When</th>
+            <th>Kid</th>
+            <th>Reward</th>
+            <th>Cost</th>
+            <th>Status</th>
+          </tr>
+          </thead>
+          <tbody>
+          {redemptionsFiltered.length === 0 && (
+            <tr><td colSpan={5} className="muted">No redemptions in this window.</td></tr>
+          )}
+          {redemptionsFiltered.map(r => (
+            <tr key={r.id}>
+              <td>{fmtDateTime(r.timestampISO)}</td>
+              <td>{kidName(r.kidId)}</td>
+              <td>{r.title}</td>
+              <td>{fmtSigned(-r.cost)}</td>
+              <td>{r.status}</td>
+            </tr>
+          ))}
+          </tbody>
+        </table>
+      </div>
+
       {/* Streak bonus log */}
       <div className="card">
-        <h3>Streak Bonuses</h3>
+        <div className="row space">
+          <h3>Streak Bonuses</h3>
+          <button className="secondary small" onClick={exportBonuses}>CSV</button>
+        </div>
         <table className="rep">
           <thead>
           <tr>
@@ -221,6 +490,19 @@ function fmtDate(iso: string) {
 function fmtDateTime(iso: string) {
   return format(parseISO(iso), 'MMM d, yyyy • h:mm a')
 }
+function fmtMoney(n: number) {
+  return `$${n.toFixed(2)}`
+}
+function fmtSignedMoney(n: number) {
+  return `${n < 0 ? '−' : '+'}${fmtMoney(Math.abs(n))}`
+}
+// a parent's jar entry, by which way the money went
+function jarEntryKind(e: JarEntry) {
+  const vals = JAR_NAMES.map(j => e.amounts[j])
+  if (vals.every(v => v >= 0)) return 'Added'
+  if (vals.every(v => v <= 0)) return 'Taken out'
+  return 'Moved'
+}
 function fmtSigned(n: number) {
   if (n > 0) return `+${n}`
   if (n < 0) return `${n}`
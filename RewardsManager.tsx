@@ -0,0 +1,120 @@
+import React, { useState } from 'react'
+import { Redemption, Reward } from './types'
+import { heldUnits, stockLeft, uid } from './utils'
+
+type Props = {
+  rewards: Reward[]
+  /** Requests hold stock, so the form's "Stock" is what's left */
+  redemptions: Redemption[]
+  onSave: (reward: Reward) => void
+  onDelete: (rewardId: string) => void
+}
+
+const blank = { title: '', cost: '10', stock: '', weeklyLimit: '', requiresApproval: false }
+
+export default function RewardsManager({ rewards, redemptions, onSave, onDelete }: Props) {
+  // form doubles as "add" (editingId null) and "edit"
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(blank)
+
+  function startEdit(r: Reward) {
+    const left = stockLeft(redemptions, r)
+    setEditingId(r.id)
+    setForm({
+      title: r.title,
+      cost: String(r.cost),
+      stock: left === undefined ? '' : String(left),
+      weeklyLimit: r.weeklyLimit === undefined ? '' : String(r.weeklyLimit),
+      requiresApproval: r.requiresApproval,
+    })
+  }
+
+  function reset() {
+    setEditingId(null)
+    setForm(blank)
+  }
+
+  function handleSubmit() {
+    const title = form.title.trim()
+    const cost = Number(form.cost)
+    if (!title || !(cost > 0)) return
+    const id = editingId ?? uid()
+    const left = optionalCount(form.stock)
+    onSave({
+      id,
+      title,
+      cost,
+      stock: left === undefined ? undefined : left + heldUnits(redemptions, id),
+      weeklyLimit: optionalCount(form.weeklyLimit),
+      requiresApproval: form.requiresApproval,
+    })
+    reset()
+  }
+
+  return (
+    <div>
+      {/* Add / edit */}
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 12 }}>
+        <input
+          placeholder="Reward"
+          value={form.title}
+          onChange={e => setForm({ ...form, title: e.target.value })}
+        />
+        <input
+          type="number" min={1} style={{ width: 70 }} title="Cost (points)"
+          value={form.cost}
+          onChange={e => setForm({ ...form, cost: e.target.value })}
+        />
+        <input
+          type="number" min={0} style={{ width: 70 }} placeholder="Stock"
+          value={form.stock}
+          onChange={e => setForm({ ...form, stock: e.target.value })}
+        />
+        <input
+          type="number" min={1} style={{ width: 90 }} placeholder="Per week"
+          value={form.weeklyLimit}
+          onChange={e => setForm({ ...form, weeklyLimit: e.target.value })}
+        />
+        <label className="row small" style={{ gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={form.requiresApproval}
+            onChange={e => setForm({ ...form, requiresApproval: e.target.checked })}
+          />
+          Needs approval
+        </label>
+        <button onClick={handleSubmit}>{editingId ? 'Save' : 'Add'}</button>
+        {editingId && <button className="secondary" onClick={reset}>Cancel</button>}
+      </div>
+
+      {/* Catalog */}
+      {rewards.length === 0 && <div className="muted">No rewards yet.</div>}
+      {rewards.map(r => {
+        const left = stockLeft(redemptions, r)
+        return (
+          <div key={r.id} className="row space" style={{ marginBottom: 8 }}>
+            <div>
+              <strong>{r.title}</strong>{' '}
+              <span className="muted small">
+                {r.cost} pts
+                {left !== undefined && ` · ${left} left`}
+                {r.weeklyLimit !== undefined && ` · ${r.weeklyLimit}/week`}
+                {r.requiresApproval && ' · needs approval'}
+              </span>
+            </div>
+            <div className="left" style={{ gap: '.5rem' }}>
+              <button className="secondary" onClick={() => startEdit(r)}>Edit</button>
+              <button className="danger" onClick={() => onDelete(r.id)}>Delete</button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function optionalCount(v: string) {
+  if (v.trim() === '') return undefined
+  const n = Math.floor(Number(v))
+  return Number.isFinite(n) && n >= 0 ? n : undefined
+}
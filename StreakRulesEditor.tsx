@@ -0,0 +1,43 @@
+import React from 'react'
+import { StreakRule } from './types'
+
+type Props = {
+  rules: StreakRule[]
+  onChange: (rules: StreakRule[]) => void
+}
+
+export default function StreakRulesEditor({ rules, onChange }: Props) {
+  const update = (i: number, patch: Partial<StreakRule>) =>
+    onChange(rules.map((r, j) => (j === i ? { ...r, ...patch } : r)))
+
+  return (
+    <div>
+      <div className="muted small" style={{ marginBottom: 8 }}>
+        A streak counts days where every due chore was done. Bonuses are added once, on the day the streak reaches each length.
+      </div>
+
+      {rules.length === 0 && <div className="muted">No streak bonuses.</div>}
+      {rules.map((r, i) => (
+        <div key={i} className="row" style={{ gap: '.5rem', marginBottom: 8 }}>
+          <input
+            type="number" min={1} style={{ width: 70 }}
+            value={r.days}
+            onChange={e => update(i, { days: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+          />
+          <span>days →</span>
+          <input
+            type="number" min={0} style={{ width: 70 }}
+            value={r.points}
+            onChange={e => update(i, { points: Math.max(0, Number(e.target.value) || 0) })}
+          />
+          <span>points</span>
+          <button className="danger" onClick={() => onChange(rules.filter((_, j) => j !== i))}>Remove</button>
+        </div>
+      ))}
+
+      <button className="secondary" onClick={() => onChange([...rules, { days: 7, points: 10 }])}>
+        Add rule
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { State } from './types'
+import { SyncEnvelope, configureSync, syncNow, syncStatus } from './sync'
+
+type Props = {
+  state: State
+  /** Fold ops pulled from other devices into the app state */
+  onRemoteOps: (remote: SyncEnvelope[]) => void
+}
+
+export default function SyncPanel({ state, onRemoteOps }: Props) {
+  const [status, setStatus] = useState(syncStatus)
+  const [url, setUrl] = useState(status.serverUrl)
+  const [token, setToken] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function run() {
+    setBusy(true)
+    setError(null)
+    try {
+      onRemoteOps(await syncNow())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sync failed.')
+    } finally {
+      setBusy(false)
+      setStatus(syncStatus())
+    }
+  }
+
+  function handleConnect() {
+    configureSync(url, token, state)
+    setStatus(syncStatus())
+    if (url.trim()) run()
+  }
+
+  function handleDisconnect() {
+    configureSync('', '', state)
+    setUrl('')
+    setToken('')
+    setStatus(syncStatus())
+  }
+
+  return (
+    <div>
+      <div className="muted small" style={{ marginBottom: 8 }}>
+        Completions, kids, chores, adjustments and payouts are shared through a sync server
+        (run <code>npm run sync-server</code> on any computer at home). Changes made offline
+        are queued and sent when the connection returns.
+      </div>
+
+      <div className="row wrap" style={{ gap: '.5rem', marginBottom: 8 }}>
+        <input
+          placeholder="http://192.168.1.10:8787"
+          style={{ flex: 1, minWidth: 200 }}
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+        />
+        <input
+          type="password"
+          placeholder="Token (optional)"
+          style={{ width: 140 }}
+          value={token}
+          onChange={e => setToken(e.target.value)}
+        />
+        <button onClick={handleConnect} disabled={!url.trim()}>
+          {status.serverUrl ? 'Save' : 'Connect'}
+        </button>
+      </div>
+
+      {status.serverUrl && (
+        <div className="row space">
+          <div className="small">
+            <strong>{status.pending}</strong> waiting to send ·{' '}
+            {status.lastSyncISO
+              ? `last synced ${format(parseISO(status.lastSyncISO), 'EEE h:mm a')}`
+              : 'not synced yet'}
+          </div>
+          <div className="row" style={{ gap: '.5rem' }}>
+            <button className="secondary" onClick={run} disabled={busy}>
+              {busy ? 'Syncing…' : 'Sync now'}
+            </button>
+            <button className="danger" onClick={handleDisconnect}>Disconnect</button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="small" style={{ color: '#b1103a', marginTop: 6 }}>{error}</div>}
+      <div className="muted small" style={{ marginTop: 6 }}>This device: {status.deviceId}</div>
+    </div>
+  )
+}
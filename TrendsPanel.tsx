@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react'
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { Kid, State } from './types'
+import { Bucket, completionTrends, pointsSeries } from './trends'
+import { BarList, Heatmap, LineChart, seriesColor } from './Charts'
+
+type Props = {
+  state: State
+  /** Kids matching the Reports kid filter */
+  kids: Kid[]
+  startISO: string
+  endISO: string
+}
+
+const DOW = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const pct = (v: number) => `${Math.round(v * 100)}%`
+
+export default function TrendsPanel({ state, kids, startISO, endISO }: Props) {
+  const span = differenceInCalendarDays(parseISO(endISO), parseISO(startISO)) + 1
+  const [bucket, setBucket] = useState<Bucket | 'auto'>('auto')
+  const by: Bucket = bucket === 'auto' ? (span > 45 ? 'week' : 'day') : bucket
+
+  const points = useMemo(
+    () => pointsSeries(state, kids, startISO, endISO, by),
+    [state, kids, startISO, endISO, by]
+  )
+  const trends = useMemo(
+    () => completionTrends(state, kids, startISO, endISO),
+    [state, kids, startISO, endISO]
+  )
+
+  // NaN when a date is cleared
+  if (!(span >= 1)) return <div className="muted">Pick a date range.</div>
+
+  // keep each kid's color stable whatever the filter or sort order
+  const colorOf = (kid: Kid) => seriesColor(state.kids.findIndex(k => k.id === kid.id), kid.color)
+  const rate = (r: { label: string; done: number; due: number }) => ({
+    label: r.label,
+    value: r.done / r.due,
+    title: `${r.label}: ${r.done} of ${r.due} done`,
+  })
+
+  return (
+    <div>
+      <div className="row space">
+        <h4 style={{ margin: '4px 0' }}>Points earned</h4>
+        <select value={bucket} onChange={e => setBucket(e.target.value as Bucket | 'auto')}>
+          <option value="auto">Auto</option>
+          <option value="day">Per day</option>
+          <option value="week">Per week</option>
+        </select>
+      </div>
+      <LineChart
+        labels={points.labels}
+        series={points.perKid.map(r => ({ name: r.kid.name, color: colorOf(r.kid), values: r.values }))}
+      />
+
+      <div className="grid-2" style={{ marginTop: 12 }}>
+        <div>
+          <h4 style={{ margin: '4px 0' }}>Completion rate by kid</h4>
+          <BarList rows={trends.byKid.map(rate)} max={1} format={pct} />
+        </div>
+        <div>
+          <h4 style={{ margin: '4px 0' }}>Most skipped chores</h4>
+          <BarList
+            rows={trends.mostSkipped.map(r => ({ label: r.label, value: r.missed, title: `${r.label}: missed ${r.missed}×` }))}
+            max={trends.mostSkipped[0]?.missed ?? 0}
+            format={v => `${v}×`}
+            color="#e0662f"
+          />
+        </div>
+      </div>
+
+      <h4 style={{ margin: '12px 0 4px' }}>Completion rate by chore</h4>
+      <BarList rows={trends.byChore.map(rate)} max={1} format={pct} color="#2fa36b" />
+
+      <h4 style={{ margin: '12px 0 4px' }}>By weekday</h4>
+      <Heatmap
+        rows={trends.weekdays.map(w => w.kid.name)}
+        cols={DOW}
+        values={trends.weekdays.map(w => w.rates)}
+      />
+      <div className="muted small" style={{ marginTop: 6 }}>
+        Rates count approved checks against chores due up to today.
+      </div>
+    </div>
+  )
+}
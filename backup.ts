@@ -0,0 +1,94 @@
+import { addDays } from 'date-fns'
+import { Snapshot, State } from './types'
+import { StorageAdapter, mergeStates, migrate } from './storage'
+import { toISO } from './utils'
+
+export type ImportMode = 'replace' | 'merge';
+
+// ------------ Export / import ------------
+
+export function downloadBackup(state: State) {
+  const blob = new Blob([JSON.stringify(state, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `loop-backup-${toISO(new Date())}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+type Fields = Record<string, unknown>;
+
+const isObj = (x: unknown): x is Fields => typeof x === 'object' && x !== null;
+const isStr = (x: unknown): x is string => typeof x === 'string' && x.length > 0;
+const isNum = (x: unknown): x is number => typeof x === 'number' && Number.isFinite(x);
+const isDay = (x: unknown) => typeof x === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(x);
+
+// First problem found in a (migrated) state, or null if it looks sound.
+function validate(s: State): string | null {
+  const checks: [string, unknown[], (x: Fields) => boolean][] = [
+    ['kids', s.kids, k => isStr(k.id) && isStr(k.name)],
+    ['chores', s.chores, c => isStr(c.id) && typeof c.title === 'string' && isNum(c.points) &&
+      isObj(c.schedule) && isStr(c.schedule.type) && Array.isArray(c.kidIds)],
+    ['completions', s.completions, c => isStr(c.id) && isStr(c.kidId) && isStr(c.choreId) &&
+      isDay(c.dateISO) && isStr(c.status) && isNum(c.points)],
+    ['adjustments', s.adjustments, a => isStr(a.id) && isStr(a.kidId) && isNum(a.delta) && isStr(a.timestampISO)],
+    ['bonuses', s.bonuses, b => isStr(b.id) && isStr(b.kidId) && isNum(b.points)],
+    ['payouts', s.payouts, p => isStr(p.id) && isStr(p.kidId) && isNum(p.points) && isNum(p.amount) && isObj(p.jars)],
+    ['jarEntries', s.jarEntries, j => isStr(j.id) && isStr(j.kidId) && isObj(j.amounts) && isStr(j.timestampISO)],
+    ['rewards', s.rewards, r => isStr(r.id) && typeof r.title === 'string' && isNum(r.cost)],
+    ['redemptions', s.redemptions, r => isStr(r.id) && isStr(r.kidId) && isNum(r.cost) && isStr(r.status)],
+    ['goals', s.goals, g => isStr(g.id) && isStr(g.kidId) && isNum(g.target) && isStr(g.createdISO)],
+  ];
+  for (const [name, list, ok] of checks) {
+    if (!Array.isArray(list)) return `"${name}" is not a list`;
+    const bad = list.findIndex(x => !isObj(x) || !ok(x));
+    if (bad >= 0) return `${name}[${bad}] is missing required fields`;
+  }
+  return null;
+}
+
+// Parse and upgrade a backup file. Throws with a readable message.
+export function parseBackup(text: string): State {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file.');
+  }
+  if (!isObj(raw) || !Array.isArray(raw.kids) || !Array.isArray(raw.chores)) {
+    throw new Error("This doesn't look like a Loop backup.");
+  }
+  const state = migrate(raw);
+  const problem = validate(state);
+  if (problem) throw new Error(`Backup is damaged: ${problem}.`);
+  return state;
+}
+
+// Imported records win on id clashes; this device keeps its own settings
+// (PIN included) when merging.
+export function applyImport(current: State, imported: State, mode: ImportMode): State {
+  if (mode === 'replace') return imported;
+  return { ...mergeStates(imported, current), settings: current.settings };
+}
+
+// ------------ Rolling snapshots ------------
+// Kept by the storage backend: in IndexedDB when that's in use.
+
+// Day already snapshotted in this session, so most saves skip the lookup.
+let snapshotISO: string | null = null;
+
+// Keep the first state seen each day, for the last `days` days.
+export async function takeDailySnapshot(storage: StorageAdapter, state: State, days: number) {
+  const todayISO = toISO(new Date());
+  if (snapshotISO === todayISO) return;
+  snapshotISO = todayISO;
+  const cutoffISO = toISO(addDays(new Date(), -Math.max(1, days) + 1));
+  const list = await storage.listSnapshots();
+  if (list.some(s => s.dateISO === todayISO)) return;
+  await storage.saveSnapshot({ dateISO: todayISO, takenISO: new Date().toISOString(), state }, cutoffISO);
+}
+
+export function restoreSnapshot(snap: Snapshot): State {
+  return migrate(snap.state);
+}
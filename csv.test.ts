@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { toCSV } from './csv'
+
+describe('toCSV', () => {
+  it('quotes commas, quotes and line breaks', () => {
+    expect(toCSV(['a'], [['x,y'], ['say "hi"'], ['two\nlines']])).toBe('a\r\n"x,y"\r\n"say ""hi"""\r\n"two\nlines"');
+  });
+
+  it('defuses text that a spreadsheet would run as a formula', () => {
+    const rows = [['=HYPERLINK("x")'], ['+A1'], ['-2+3'], ['@SUM(A1)']];
+    expect(toCSV(['a'], rows).split('\r\n').slice(1)).toEqual([`"'=HYPERLINK(""x"")"`, "'+A1", "'-2+3", "'@SUM(A1)"]);
+  });
+
+  it('leaves negative numbers and empty cells alone', () => {
+    expect(toCSV(['a', 'b', 'c', 'd'], [[-5, '-1.50', null, undefined]])).toBe('a,b,c,d\r\n-5,-1.50,,');
+  });
+});
@@ -0,0 +1,26 @@
+export type Cell = string | number | null | undefined;
+
+// RFC 4180: quote fields containing a comma, quote or line break. Text
+// starting with = + - @ gets a leading ' so spreadsheets don't run it as a
+// formula. Numbers, including ones already formatted like "-1.50", stay
+// as they are.
+function escape(cell: Cell) {
+  let s = cell === null || cell === undefined ? '' : String(cell);
+  if (/^[=+\-@]/.test(s) && Number.isNaN(Number(s))) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(header: string[], rows: Cell[][]) {
+  return [header, ...rows].map(r => r.map(escape).join(',')).join('\r\n');
+}
+
+export function downloadCSV(filename: string, header: string[], rows: Cell[][]) {
+  // BOM so Excel opens UTF-8 names/emoji correctly
+  const blob = new Blob(['\uFEFF', toCSV(header, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
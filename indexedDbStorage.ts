@@ -0,0 +1,147 @@
+import { AdjustmentLog, AuditEntry, BonusLog, Completion, Snapshot, State } from './types'
+import {
+  CURRENT_VERSION, NewerVersionError, StorageAdapter, dropLocalSnapshots, loadState, localStorageAdapter, migrate,
+  readLocalSnapshots
+} from './storage'
+
+// Large, append-mostly logs get their own object store (keyed by id) so a
+// toggle writes one record instead of the whole state. Everything else is
+// one small record in `meta`. Daily snapshots are kept apart, keyed by day.
+const DB_NAME = 'loop';
+const DB_VERSION = 3;
+const LOGS = ['completions', 'adjustments', 'bonuses', 'audit'] as const;
+const META = 'meta';
+const META_KEY = 'state';
+const SNAPSHOTS = 'snapshots';
+
+type LogName = typeof LOGS[number];
+
+function request<T>(r: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function committed(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb() {
+  const r = indexedDB.open(DB_NAME, DB_VERSION);
+  r.onupgradeneeded = () => {
+    const db = r.result;
+    if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    for (const name of LOGS) {
+      if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'dateISO' });
+  };
+  return request(r);
+}
+
+function splitState(s: State) {
+  const { completions, adjustments, bonuses, audit, ...meta } = s;
+  return { meta, logs: { completions, adjustments, bonuses, audit } as Pick<State, LogName> };
+}
+
+function metaChanged(prev: State, next: State) {
+  return (Object.keys(next) as (keyof State)[]).some(k => !LOGS.includes(k as LogName) && prev[k] !== next[k]);
+}
+
+// Put records that are new or were replaced (state updates are immutable,
+// so an unchanged record is the same object), delete the ones that are gone.
+function writeLog<T extends { id: string }>(store: IDBObjectStore, prev: T[] | null, next: T[]) {
+  if (prev === next) return;
+  const before = new Map((prev ?? []).map(x => [x.id, x]));
+  for (const x of next) {
+    if (before.get(x.id) !== x) store.put(x);
+    before.delete(x.id);
+  }
+  for (const id of before.keys()) store.delete(id);
+}
+
+async function write(db: IDBDatabase, prev: State | null, next: State) {
+  const tx = db.transaction([META, ...LOGS], 'readwrite');
+  const { meta, logs } = splitState(next);
+  if (!prev || metaChanged(prev, next)) tx.objectStore(META).put(meta, META_KEY);
+  for (const name of LOGS) {
+    writeLog<{ id: string }>(tx.objectStore(name), prev ? prev[name] : null, logs[name]);
+  }
+  await committed(tx);
+}
+
+// Stored state, and whether it had to be migrated (and so needs a full rewrite).
+async function read(db: IDBDatabase): Promise<{ state: State; upgraded: boolean } | null> {
+  const tx = db.transaction([META, ...LOGS], 'readonly');
+  // issue every request up front so the transaction stays alive
+  const [meta, ...logs] = await Promise.all([
+    request(tx.objectStore(META).get(META_KEY)),
+    ...LOGS.map(name => request(tx.objectStore(name).getAll()))
+  ]);
+  if (!meta) return null;
+  const [completions, adjustments, bonuses, audit] = logs as [Completion[], AdjustmentLog[], BonusLog[], AuditEntry[]];
+  // stores return records in key (id) order; the audit log reads by time
+  audit.sort((a, b) => a.timestampISO.localeCompare(b.timestampISO));
+  const state = migrate({ ...meta, completions, adjustments, bonuses, audit });
+  return { state, upgraded: meta.version !== CURRENT_VERSION };
+}
+
+// Snapshots taken while localStorage was the backend move over once they're stored here.
+async function importLocalSnapshots(db: IDBDatabase) {
+  const local = readLocalSnapshots();
+  if (!local.length) return;
+  const tx = db.transaction(SNAPSHOTS, 'readwrite');
+  for (const snap of local) tx.objectStore(SNAPSHOTS).put(snap);
+  await committed(tx);
+  dropLocalSnapshots();
+}
+
+// IndexedDB backend. On first run it imports whatever loadState() finds in
+// localStorage (current or legacy keys), which is left behind as a fallback
+// copy. If IndexedDB can't be opened (e.g. some private modes) it quietly
+// uses localStorage for the session. Data from a newer build rejects load().
+// Snapshots live in their own store here rather than in localStorage's quota.
+export function createIndexedDbStorage(): StorageAdapter {
+  let db: IDBDatabase | null = null;
+  return {
+    async load() {
+      try {
+        db = await openDb();
+        const stored = await read(db);
+        if (stored?.upgraded) await write(db, null, stored.state);
+        const state = stored ? stored.state : loadState();
+        if (!stored) await write(db, null, state);
+        await importLocalSnapshots(db).catch(err => console.warn('Moving snapshots failed', err));
+        return state;
+      } catch (err) {
+        // a newer build's data: don't fall back to an older copy and save over it
+        if (err instanceof NewerVersionError) throw err;
+        console.warn('IndexedDB unavailable, using localStorage', err);
+        db = null;
+        return localStorageAdapter.load();
+      }
+    },
+    async save(prev, next) {
+      if (!db) return localStorageAdapter.save(prev, next);
+      await write(db, prev, next);
+    },
+    async listSnapshots() {
+      if (!db) return localStorageAdapter.listSnapshots();
+      const list: Snapshot[] = await request(db.transaction(SNAPSHOTS, 'readonly').objectStore(SNAPSHOTS).getAll());
+      return list.sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+    },
+    async saveSnapshot(snap, cutoffISO) {
+      if (!db) return localStorageAdapter.saveSnapshot(snap, cutoffISO);
+      const tx = db.transaction(SNAPSHOTS, 'readwrite');
+      const store = tx.objectStore(SNAPSHOTS);
+      store.put(snap);
+      store.delete(IDBKeyRange.upperBound(cutoffISO, true));
+      await committed(tx);
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { AdjustmentLog, Chore, State } from './types'
+import { choresDueFor, isActive, isFullyDone, kidSplit, toISO } from './utils'
+
+// A chore is missed on a day it was due and got no check (a pending one
+// counts; a rejected one, or a checklist with steps left, doesn't).
+// Callers keep today out: it isn't over.
+
+export interface Occurrence {
+  chore: Chore;
+  dateISO: string;
+}
+
+// Carry-over chores reach back this far at most.
+const CARRY_DAYS = 30;
+// Penalties catch up this many days after the app was last open.
+const CATCH_UP_DAYS = 14;
+
+function checkedSet(state: State, kidId: string) {
+  const chores = new Map(state.chores.map(ch => [ch.id, ch]));
+  const set = new Set<string>();
+  for (const c of state.completions) {
+    if (c.kidId === kidId && isFullyDone(chores.get(c.choreId), c)) set.add(`${c.choreId}|${c.dateISO}`);
+  }
+  return set;
+}
+
+// Missed occurrences for a kid in [startISO, endISO], oldest first.
+export function missedBetween(state: State, kidId: string, startISO: string, endISO: string): Occurrence[] {
+  const checked = checkedSet(state, kidId);
+  const out: Occurrence[] = [];
+  for (let d = parseISO(startISO); toISO(d) <= endISO; d = addDays(d, 1)) {
+    const dateISO = toISO(d);
+    for (const chore of choresDueFor(state, kidId, dateISO)) {
+      if (!checked.has(`${chore.id}|${dateISO}`)) out.push({ chore, dateISO });
+    }
+  }
+  return out;
+}
+
+// Missed "carry over until done" chores from the days before `dateISO`,
+// still waiting to be done.
+export function carriedOver(state: State, kidId: string, dateISO: string): Occurrence[] {
+  if (!state.chores.some(ch => ch.carryOverISO && isActive(ch))) return [];
+  const day = parseISO(dateISO);
+  return missedBetween(state, kidId, toISO(addDays(day, -CARRY_DAYS)), toISO(addDays(day, -1)))
+    .filter(o => o.chore.carryOverISO && o.dateISO >= o.chore.carryOverISO && isActive(o.chore));
+}
+
+// Penalties owed for days before `todayISO` since the rule was turned on,
+// one per missed occurrence. The id comes from the occurrence, so every
+// device writes the same adjustment and nothing is charged twice. Days
+// through `settledISO` are skipped, so a later assignment, rotation or
+// schedule change doesn't charge for them after the fact.
+export function missedPenalties(state: State, todayISO: string): AdjustmentLog[] {
+  const { points, sinceISO, settledISO } = state.settings.missedPenalty;
+  if (points <= 0 || !sinceISO) return [];
+  const today = parseISO(todayISO);
+  const floor = toISO(addDays(today, -CATCH_UP_DAYS));
+  const unsettled = settledISO ? toISO(addDays(parseISO(settledISO), 1)) : '';
+  const startISO = [sinceISO, unsettled, floor].reduce((a, b) => (a > b ? a : b));
+  const endISO = toISO(addDays(today, -1));
+  const have = new Set(state.adjustments.map(a => a.id));
+  const out: AdjustmentLog[] = [];
+  for (const kid of state.kids.filter(isActive)) {
+    for (const { chore, dateISO } of missedBetween(state, kid.id, startISO, endISO)) {
+      const id = `missed-${kid.id}-${chore.id}-${dateISO}`;
+      if (have.has(id)) continue;
+      out.push({
+        id,
+        kidId: kid.id,
+        delta: -points,
+        reason: `Missed "${chore.title}" on ${format(parseISO(dateISO), 'EEE MMM d')}`,
+        // stamped at the end of the missed day, not when the app noticed
+        timestampISO: new Date(addDays(parseISO(dateISO), 1).getTime() - 1).toISOString(),
+        jars: kidSplit(kid)
+      });
+    }
+  }
+  return out;
+}
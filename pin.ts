@@ -0,0 +1,18 @@
+import { ParentPin } from './types'
+import { uid } from './utils'
+
+// crypto.subtle only exists on secure origins, so not on a plain-http LAN address.
+async function sha256(text: string) {
+  if (!globalThis.crypto?.subtle) throw new Error('The parent PIN needs a secure connection (https or localhost).');
+  const buf = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashPin(pin: string, salt = uid()): Promise<ParentPin> {
+  return { salt, hash: await sha256(`${salt}:${pin}`) };
+}
+
+export async function verifyPin(pin: string, stored: ParentPin) {
+  const { hash } = await hashPin(pin, stored.salt);
+  return hash === stored.hash;
+}
@@ -0,0 +1,393 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { Actor, AuditEntry, Goal, Kid, Settings, State } from './types'
+import { SyncEnvelope, SyncOp, applyOps } from './sync'
+import { withStreakBonuses } from './streaks'
+import { JAR_NAMES, toISO } from './utils'
+
+// ------------ Actions ------------
+// Every change to State goes through reduce(). Actions carry their ids and
+// timestamps, and synced ops win or lose their registers before they're
+// dispatched (sync.recordOp, sync.acceptOps), so the reducer stays pure
+// (React may call it twice).
+
+export type Action =
+  // stamped with sync.recordOp; `todayISO` bounds the streak bonus check
+  | { type: 'sync'; envs: SyncEnvelope[]; todayISO: string }
+  | { type: 'updateKid'; kid: Kid }
+  | { type: 'archiveKid'; kidId: string; dateISO: string }
+  | { type: 'restoreKid'; kidId: string }
+  | { type: 'purgeKid'; kidId: string }
+  | { type: 'purgeChore'; choreId: string; todayISO: string }
+  | { type: 'saveGoal'; goal: Goal }
+  | { type: 'deleteGoal'; goalId: string }
+  | { type: 'updateSettings'; settings: Partial<Settings> }
+  | { type: 'replaceState'; state: State };       // backup import or restore
+
+export function reduce(s: State, a: Action): State {
+  switch (a.type) {
+    case 'sync':
+      return applyOps(s, a.envs, a.todayISO);
+    case 'updateKid':
+      return { ...s, kids: s.kids.map(k => (k.id === a.kid.id ? a.kid : k)) };
+    case 'archiveKid':
+      return { ...s, kids: s.kids.map(k => (k.id === a.kidId ? { ...k, archivedISO: a.dateISO } : k)) };
+    case 'restoreKid':
+      return {
+        ...s,
+        kids: s.kids.map(k => {
+          if (k.id !== a.kidId) return k;
+          const { archivedISO, ...rest } = k;
+          return rest;
+        })
+      };
+    // Permanent: the kid and every record that points at them
+    case 'purgeKid': {
+      const keep = <T extends { kidId: string }>(xs: T[]) => xs.filter(x => x.kidId !== a.kidId);
+      return {
+        ...s,
+        kids: s.kids.filter(k => k.id !== a.kidId),
+        completions: keep(s.completions),
+        adjustments: keep(s.adjustments),
+        bonuses: keep(s.bonuses),
+        payouts: keep(s.payouts),
+        jarEntries: keep(s.jarEntries),
+        redemptions: keep(s.redemptions),
+        goals: keep(s.goals)
+      };
+    }
+    case 'purgeChore': {
+      const rest = {
+        ...s,
+        chores: s.chores.filter(ch => ch.id !== a.choreId),
+        completions: s.completions.filter(c => c.choreId !== a.choreId)
+      };
+      // revoke bonuses for streaks that needed its completions; none are
+      // paid for the past
+      const firstISO = s.completions.filter(c => c.choreId === a.choreId).map(c => c.dateISO).sort()[0];
+      return firstISO ? withStreakBonuses(rest, firstISO, a.todayISO, a.todayISO) : rest;
+    }
+    case 'saveGoal':
+      return {
+        ...s,
+        goals: s.goals.some(g => g.id === a.goal.id)
+          ? s.goals.map(g => (g.id === a.goal.id ? a.goal : g))
+          : [...s.goals, a.goal]
+      };
+    case 'deleteGoal':
+      return { ...s, goals: s.goals.filter(g => g.id !== a.goalId) };
+    case 'updateSettings':
+      return { ...s, settings: { ...s.settings, ...a.settings } };
+    case 'replaceState':
+      return { ...a.state, settings: keepSettled(s, a.state.settings) };
+  }
+}
+
+// Days already settled for missed-chore penalties stay settled when older
+// settings come back (undo, a backup), or they'd be charged again against
+// today's assignments.
+function keepSettled(current: State, settings: Settings): Settings {
+  const settledISO = current.settings.missedPenalty.settledISO ?? '';
+  if ((settings.missedPenalty.settledISO ?? '') >= settledISO) return settings;
+  return { ...settings, missedPenalty: { ...settings.missedPenalty, settledISO } };
+}
+
+// ------------ Audit summaries ------------
+// One line per action, worded against the state *before* it ran.
+
+const fmtDay = (iso: string) => format(parseISO(iso), 'EEE MMM d');
+const fmtSigned = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+const kidName = (s: State, id: string) => s.kids.find(k => k.id === id)?.name ?? 'Unknown kid';
+
+function describeOp(s: State, op: SyncOp): string {
+  switch (op.type) {
+    case 'setCompletion': {
+      const chore = s.chores.find(ch => ch.id === op.choreId);
+      const what = `${kidName(s, op.kidId)}: "${chore?.title ?? 'a chore'}" on ${fmtDay(op.dateISO)}`;
+      const prev = s.completions.find(
+        c => c.kidId === op.kidId && c.choreId === op.choreId && c.dateISO === op.dateISO
+      );
+      const was = prev?.status;
+      const steps = op.stepIds && chore?.steps?.length ? ` (${op.stepIds.length}/${chore.steps.length} steps)` : '';
+      if (op.status === null) return `Unchecked ${what}`;
+      if (op.status === 'started') return `Started ${what}${steps}`;
+      if (was === 'pending' && op.status === 'rejected') return `Rejected ${what}`;
+      if (was === 'pending' && op.status === 'approved' && op.stepIds?.join() === prev?.stepIds?.join()) {
+        return `Approved ${what}`;
+      }
+      // turned down the steps ticked since a parent approved part of it
+      if (
+        was === 'pending' && op.status === 'approved' && prev?.approved &&
+        op.stepIds?.join() === prev.approved.stepIds?.join()
+      ) return `Rejected the new steps of ${what}`;
+      return `Checked ${what}${steps}${op.late ? ' late' : ''}${op.status === 'pending' ? ' (needs approval)' : ''}`;
+    }
+    case 'addKid':
+      return `Added kid ${op.kid.name}`;
+    case 'setJars':
+      return `${kidName(s, op.kidId)}'s split: ${JAR_NAMES.map(j => `${op.jars[j]}% ${j}`).join(', ')}`;
+    case 'adjust': {
+      const { kidId, delta, reason } = op.adjustment;
+      return `${kidName(s, kidId)}: ${fmtSigned(delta)} pts${reason ? ` (${reason})` : ''}`;
+    }
+    case 'payout':
+      return `Paid ${kidName(s, op.payout.kidId)} ${op.payout.points} pts ($${op.payout.amount.toFixed(2)})`;
+    case 'jar': {
+      const { kidId, amounts, note } = op.entry;
+      const parts = JAR_NAMES.filter(j => amounts[j]).map(j => `${amounts[j] > 0 ? '+' : '-'}$${Math.abs(amounts[j]).toFixed(2)} ${j}`);
+      return `${kidName(s, kidId)} jars: ${parts.join(', ')}${note ? ` (${note})` : ''}`;
+    }
+    case 'upsertChore': {
+      const was = s.chores.find(ch => ch.id === op.chore.id);
+      if (!was) return `Added chore "${op.chore.title}"`;
+      if (!was.archivedISO && op.chore.archivedISO) return `Archived chore "${op.chore.title}"`;
+      if (was.archivedISO && !op.chore.archivedISO) return `Restored chore "${op.chore.title}"`;
+      return `Edited chore "${op.chore.title}"`;
+    }
+    case 'upsertReward':
+      return `${s.rewards.some(r => r.id === op.reward.id) ? 'Edited' : 'Added'} reward "${op.reward.title}"`;
+    case 'deleteReward':
+      return `Deleted reward "${s.rewards.find(r => r.id === op.rewardId)?.title ?? ''}"`;
+    case 'redemption': {
+      const { kidId, title, cost, status } = op.redemption;
+      if (s.redemptions.some(r => r.id === op.redemption.id)) {
+        return `${status === 'approved' ? 'Approved' : 'Rejected'} ${kidName(s, kidId)}'s "${title}"`;
+      }
+      return `${kidName(s, kidId)} redeemed "${title}" for ${cost} pts${status === 'pending' ? ' (needs approval)' : ''}`;
+    }
+  }
+}
+
+const SETTING_LABELS: { [K in keyof Settings]-?: (v: Settings[K]) => string } = {
+  hideCompletedOnBoard: v => `${v ? 'Hid' : 'Showed'} finished chores on the Board`,
+  dollarsPerPoint: v => `Set the rate to $${v} per point`,
+  streakRules: () => 'Changed the streak bonus rules',
+  lateRule: v =>
+    v.percent >= 100
+      ? 'Turned off the late penalty'
+      : `Set late chores to earn ${v.percent}% after ${v.graceMinutes} min grace`,
+  missedPenalty: v =>
+    v.points > 0 ? `Set a ${v.points} pt penalty per missed chore` : 'Turned off missed-chore penalties',
+  parentPin: v => (v ? 'Set the parent PIN' : 'Removed the parent PIN'),
+  relockMinutes: v => `Set parent mode to relock after ${v} min`,
+  kidModeKidId: v => (v ? "Set this device's kid for kid mode" : "Cleared this device's kid for kid mode"),
+  snapshotDays: v => `Set daily snapshots to keep ${v} days`
+};
+
+export function describe(s: State, a: Action): string {
+  switch (a.type) {
+    case 'sync':
+      if (a.envs.length > 1 && a.envs.every(e => e.op.type === 'upsertChore')) return 'Reordered chores';
+      return a.envs.map(e => describeOp(s, e.op)).join('; ');
+    case 'updateKid':
+      return `Updated ${a.kid.name}`;
+    case 'archiveKid':
+      return `Archived kid ${kidName(s, a.kidId)}`;
+    case 'restoreKid':
+      return `Restored kid ${kidName(s, a.kidId)}`;
+    case 'purgeKid': {
+      const done = s.completions.filter(c => c.kidId === a.kidId).length;
+      return `Permanently deleted kid ${kidName(s, a.kidId)} and ${done} completions`;
+    }
+    case 'purgeChore': {
+      const done = s.completions.filter(c => c.choreId === a.choreId).length;
+      return `Permanently deleted chore "${s.chores.find(ch => ch.id === a.choreId)?.title ?? ''}" and ${done} completions`;
+    }
+    case 'saveGoal':
+      return `${s.goals.some(g => g.id === a.goal.id) ? 'Edited' : 'Added'} goal "${a.goal.title}" for ${kidName(s, a.goal.kidId)}`;
+    case 'deleteGoal': {
+      const goal = s.goals.find(g => g.id === a.goalId);
+      return `Removed goal "${goal?.title ?? ''}"${goal ? ` for ${kidName(s, goal.kidId)}` : ''}`;
+    }
+    case 'updateSettings':
+      return (Object.keys(a.settings) as (keyof Settings)[])
+        .map(k => (SETTING_LABELS[k] as (v: unknown) => string)(a.settings[k]))
+        .join('; ');
+    case 'replaceState':
+      return `Replaced all data from a backup (${a.state.kids.length} kids, ${a.state.completions.length} completions)`;
+  }
+}
+
+// ------------ Undo history ------------
+
+export interface Step {
+  action: Action;
+  actor: Actor;
+  auditId: string;         // the AuditEntry written for this step
+  atMs: number;
+  before: State;
+  after: State;
+}
+
+export interface History {
+  state: State;
+  past: Step[];            // newest last
+  future: Step[];          // newest first (next redo at index 0)
+}
+
+// `auditId` is the id for the AuditEntry the action writes.
+export type HistoryAction =
+  | { type: 'load'; state: State }
+  | { type: 'do'; action: Action; actor: Actor; atMs: number; auditId: string }
+  // `envs` carry the undo/redo to other devices, see sync.diffOps
+  | { type: 'undo'; actor: Actor; envs: SyncEnvelope[]; atMs: number; auditId: string }
+  | { type: 'redo'; actor: Actor; envs: SyncEnvelope[]; atMs: number; auditId: string }
+  // ops from other devices that won their registers, see sync.acceptOps
+  | { type: 'remote'; envs: SyncEnvelope[]; atMs: number; auditId: string }
+  // changes the app makes on its own, e.g. missed-chore penalties
+  | { type: 'auto'; envs: SyncEnvelope[]; atMs: number; auditId: string }
+  // missed-chore penalties are settled for the days before `todayISO`;
+  // bookkeeping, so it's neither logged nor undone
+  | { type: 'settleMissed'; todayISO: string };
+
+const HISTORY_LIMIT = 50;
+const AUDIT_LIMIT = 500;
+// Rapid edits to the same setting (typing "15" into a number box) merge
+// into one step.
+const MERGE_MS = 3000;
+
+function audit(s: State, entry: AuditEntry): State {
+  return { ...s, audit: [...s.audit, entry].slice(-AUDIT_LIMIT) };
+}
+
+function entry(actor: Actor, atMs: number, summary: string, id: string): AuditEntry {
+  return { id, timestampISO: new Date(atMs).toISOString(), actor, summary };
+}
+
+const sameKeys = (a: object, b: object) => Object.keys(a).sort().join() === Object.keys(b).sort().join();
+
+// Jump to a snapshot from history. The audit log, the PIN and settled
+// penalty days aren't part of undo: the log keeps growing, a PIN change
+// only happens explicitly, and see keepSettled.
+function restore(current: State, target: State, envs: SyncEnvelope[], atMs: number): State {
+  const settings = { ...keepSettled(current, target.settings), parentPin: current.settings.parentPin };
+  return applyOps({ ...target, settings, audit: current.audit }, envs, toISO(new Date(atMs)));
+}
+
+// ------------ Rebasing history ------------
+// Changes from elsewhere (other devices, automatic penalties) are folded
+// into every undo snapshot so undo doesn't roll them back. Rather than
+// replaying the ops on each snapshot, the records they changed are copied
+// over: a completion by its kid|chore|date slot, anything else by id.
+
+const RECORD_LISTS = [
+  'kids', 'chores', 'completions', 'adjustments', 'bonuses', 'payouts', 'jarEntries', 'rewards', 'redemptions', 'goals'
+] as const;
+
+type RecordList = typeof RECORD_LISTS[number];
+type Rec = { id: string; kidId?: string; choreId?: string; dateISO?: string };
+type RecordPatch = { list: RecordList; put: Map<string, Rec>; drop: Set<string> }[];
+
+const slotOf = (list: RecordList, x: Rec) => (list === 'completions' ? `${x.kidId}|${x.choreId}|${x.dateISO}` : x.id);
+const recordsOf = (s: State, list: RecordList) => s[list] as Rec[];
+
+function diffRecords(from: State, to: State): RecordPatch {
+  const patch: RecordPatch = [];
+  for (const list of RECORD_LISTS) {
+    if (from[list] === to[list]) continue;
+    const before = new Map(recordsOf(from, list).map(x => [slotOf(list, x), x]));
+    const put = new Map<string, Rec>();
+    for (const x of recordsOf(to, list)) {
+      const slot = slotOf(list, x);
+      if (before.get(slot) !== x) put.set(slot, x);
+      before.delete(slot);
+    }
+    patch.push({ list, put, drop: new Set(before.keys()) });
+  }
+  return patch;
+}
+
+function patchRecords(s: State, patch: RecordPatch): State {
+  const out = { ...s };
+  for (const { list, put, drop } of patch) {
+    const placed = new Set<string>();
+    const next = recordsOf(s, list).flatMap(x => {
+      const slot = slotOf(list, x);
+      if (drop.has(slot)) return [];
+      if (!put.has(slot)) return [x];
+      placed.add(slot);
+      return [put.get(slot)!];
+    });
+    for (const [slot, x] of put) if (!placed.has(slot)) next.push(x);
+    (out as Record<RecordList, Rec[]>)[list] = next;
+  }
+  return out;
+}
+
+export function historyReducer(h: History, a: HistoryAction): History {
+  switch (a.type) {
+    case 'load':
+      return { state: a.state, past: [], future: [] };
+
+    case 'do': {
+      const summary = describe(h.state, a.action);
+      const next = reduce(h.state, a.action);
+      if (next === h.state) return h;
+
+      // PIN changes are logged but can't be undone
+      if (a.action.type === 'updateSettings' && 'parentPin' in a.action.settings) {
+        return { ...h, state: audit(next, entry(a.actor, a.atMs, summary, a.auditId)) };
+      }
+
+      const last = h.past[h.past.length - 1];
+      if (
+        last && last.action.type === 'updateSettings' && a.action.type === 'updateSettings' &&
+        last.actor === a.actor && a.atMs - last.atMs < MERGE_MS && sameKeys(last.action.settings, a.action.settings)
+      ) {
+        const state = {
+          ...next,
+          audit: next.audit.map(e => (e.id === last.auditId ? entry(a.actor, a.atMs, summary, e.id) : e))
+        };
+        const step = { ...last, action: a.action, atMs: a.atMs, after: state };
+        return { state, past: [...h.past.slice(0, -1), step], future: [] };
+      }
+
+      const e = entry(a.actor, a.atMs, summary, a.auditId);
+      const state = audit(next, e);
+      const step: Step = { action: a.action, actor: a.actor, auditId: e.id, atMs: a.atMs, before: h.state, after: state };
+      return { state, past: [...h.past, step].slice(-HISTORY_LIMIT), future: [] };
+    }
+
+    case 'undo': {
+      const step = h.past[h.past.length - 1];
+      if (!step) return h;
+      const state = audit(
+        restore(h.state, step.before, a.envs, a.atMs),
+        entry(a.actor, a.atMs, `Undid: ${describe(step.before, step.action)}`, a.auditId)
+      );
+      return { state, past: h.past.slice(0, -1), future: [step, ...h.future] };
+    }
+
+    case 'redo': {
+      const step = h.future[0];
+      if (!step) return h;
+      const state = audit(
+        restore(h.state, step.after, a.envs, a.atMs),
+        entry(a.actor, a.atMs, `Redid: ${describe(step.before, step.action)}`, a.auditId)
+      );
+      return { state, past: [...h.past, step], future: h.future.slice(1) };
+    }
+
+    case 'remote':
+    case 'auto': {
+      const next = applyOps(h.state, a.envs, toISO(new Date(a.atMs)));
+      if (next === h.state) return h;
+      const n = a.envs.length;
+      const e = a.type === 'remote'
+        ? entry('sync', a.atMs, `Received ${n} change${n === 1 ? '' : 's'} from other devices`, a.auditId)
+        : entry('auto', a.atMs, a.envs.map(env => describeOp(h.state, env.op)).join('; '), a.auditId);
+      const patch = diffRecords(h.state, next);
+      const rebase = (st: Step): Step => ({
+        ...st, before: patchRecords(st.before, patch), after: patchRecords(st.after, patch)
+      });
+      return { state: audit(next, e), past: h.past.map(rebase), future: h.future.map(rebase) };
+    }
+
+    case 'settleMissed': {
+      const settledISO = toISO(addDays(parseISO(a.todayISO), -1));
+      const missedPenalty = h.state.settings.missedPenalty;
+      if ((missedPenalty.settledISO ?? '') >= settledISO) return h;
+      const settings = { ...h.state.settings, missedPenalty: { ...missedPenalty, settledISO } };
+      return { ...h, state: { ...h.state, settings } };
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { CURRENT_VERSION, NewerVersionError, migrate } from './storage'
+
+describe('migrate', () => {
+  it('upgrades a version 1 blob', () => {
+    const s = migrate({
+      kids: [{ name: 'A', points: 12 }],
+      chores: [{ id: 'c', title: 'Bed', points: 3, assignedKidIds: ['k'] }],
+      completions: [{ choreId: 'c', kidId: 'k', date: '2024-05-01', completed: true }, 'junk'],
+      payouts: [{ points: 10 }],
+      settings: { dollarsPerPoint: 0.5 }
+    });
+    expect(s.version).toBe(CURRENT_VERSION);
+    expect(s.kids[0]).not.toHaveProperty('points');
+    expect(s.chores[0].kidIds).toEqual(['k']);
+    expect(s.completions).toHaveLength(1);
+    expect(s.completions[0]).toMatchObject({ dateISO: '2024-05-01', status: 'approved', points: 3 });
+    expect(s.payouts[0]).toMatchObject({ amount: 5, jars: { spend: 5, save: 0, give: 0 } });
+  });
+
+  it('counts open requests into a reward\'s stock', () => {
+    const s = migrate({
+      version: 11, kids: [], chores: [],
+      rewards: [{ id: 'r', title: 'Movie', cost: 5, stock: 2, requiresApproval: false }],
+      redemptions: [{ id: 'x', rewardId: 'r', status: 'approved' }, { id: 'y', rewardId: 'r', status: 'rejected' }]
+    });
+    expect(s.rewards[0].stock).toBe(3);
+  });
+
+  it('refuses data from a newer build', () => {
+    expect(() => migrate({ version: CURRENT_VERSION + 1 })).toThrow(NewerVersionError);
+  });
+});
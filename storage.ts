@@ -1,33 +1,283 @@
-import { State } from './types'
+import { Snapshot, State, Settings } from './types'
+import { uid } from './utils'
 
-const KEY = 'skylight_kids_state_v2';
+const KEY = 'loop_state';
+const SNAPSHOT_KEY = 'loop_snapshots';
 
-export function loadState(): State {
-  const raw = localStorage.getItem(KEY);
-  if (!raw) {
+// Keys written by earlier builds. Imported (newest first) only when KEY is
+// empty, and left in place so an older build can still be opened.
+const LEGACY_KEYS = ['loop-state', 'skylight_kids_state_v2'];
+
+export const CURRENT_VERSION = 12;
+
+type RawState = Record<string, unknown>;
+
+const isRecord = (x: unknown): x is RawState => typeof x === 'object' && x !== null && !Array.isArray(x);
+const fields = (x: unknown): RawState => (isRecord(x) ? x : {});
+// a stored list, keeping only its records; missing = empty
+const records = (x: unknown): RawState[] => (Array.isArray(x) ? x.filter(isRecord) : []);
+const num = (x: unknown) => (typeof x === 'number' && Number.isFinite(x) ? x : undefined);
+
+const DEFAULT_SETTINGS: Settings = {
+  hideCompletedOnBoard: false,
+  dollarsPerPoint: 0.1,
+  streakRules: [{ days: 7, points: 10 }],
+  lateRule: { percent: 100, graceMinutes: 0 },
+  missedPenalty: { points: 0, sinceISO: '', settledISO: '' },
+  relockMinutes: 5,
+  snapshotDays: 7
+};
+
+export function emptyState(): State {
+  return {
+    version: CURRENT_VERSION,
+    kids: [], chores: [], completions: [], adjustments: [], bonuses: [], payouts: [], jarEntries: [],
+    rewards: [], redemptions: [], goals: [],
+    settings: { ...DEFAULT_SETTINGS },
+    audit: []
+  };
+}
+
+// MIGRATIONS[n] upgrades a version-n blob to version n + 1. Blobs without a
+// `version` field (the old `loop-state` fallback in App.tsx) are version 1.
+// Stored data is whatever an older build wrote, so fields are narrowed as
+// they're read: lists keep only their records, and numbers are checked.
+const MIGRATIONS: Record<number, (s: RawState) => RawState> = {
+  // v1 -> v2: the `skylight_kids_state_v2` shape
+  1: (s) => ({
+    ...s,
+    rewards: records(s.rewards),
+    payouts: records(s.payouts),
+    settings: { ...DEFAULT_SETTINGS, ...fields(s.settings) },
+    version: 2
+  }),
+  // v2 -> v3: one name per field, ids and `completed` on every completion
+  2: ({ streakBonuses, ...s }) => ({
+    ...s,
+    kids: records(s.kids).map(k => ({ ...k, id: k.id ?? uid() })),
+    chores: records(s.chores).map(({ assignedKidIds, ...ch }) => ({
+      ...ch,
+      id: ch.id ?? uid(),
+      kidIds: ch.kidIds ?? assignedKidIds ?? []
+    })),
+    completions: records(s.completions).map(({ date, ...c }) => ({
+      ...c,
+      id: c.id ?? uid(),
+      dateISO: c.dateISO ?? date,
+      completed: c.completed ?? true
+    })),
+    adjustments: records(s.adjustments),
+    bonuses: records(s.bonuses ?? streakBonuses),
+    version: 3
+  }),
+  // v3 -> v4: payouts become a real ledger with a dollar amount
+  3: (s) => ({
+    ...s,
+    payouts: records(s.payouts).map(p => ({
+      ...p,
+      id: p.id ?? uid(),
+      period: p.period ?? 'weekly',
+      amount: p.amount ??
+        (num(p.points) ?? 0) * (num(fields(s.settings).dollarsPerPoint) ?? DEFAULT_SETTINGS.dollarsPerPoint),
+      timestampISO: p.timestampISO ?? p.endISO ?? new Date().toISOString()
+    })),
+    version: 4
+  }),
+  // v4 -> v5: rewards catalog (seeded empty since v2) and a redemption log
+  4: (s) => ({
+    ...s,
+    rewards: records(s.rewards).map(r => ({
+      ...r,
+      id: r.id ?? uid(),
+      cost: r.cost ?? r.points ?? 0,
+      requiresApproval: r.requiresApproval ?? false
+    })),
+    redemptions: records(s.redemptions),
+    version: 5
+  }),
+  // v5 -> v6: balances are derived (utils.kidBalance), drop the stored counter
+  5: (s) => ({
+    ...s,
+    kids: records(s.kids).map(({ points, ...k }) => k),
+    version: 6
+  }),
+  // v6 -> v7: `completed` flag becomes an approval status. Unchecked rows
+  // (completed: false) never carried any meaning and are dropped.
+  6: (s) => ({
+    ...s,
+    completions: records(s.completions)
+      .filter(c => c.status || c.completed)
+      .map(({ completed, ...c }) => ({ ...c, status: c.status ?? 'approved' })),
+    version: 7
+  }),
+  // v7 -> v8: audit log of changes
+  7: (s) => ({
+    ...s,
+    audit: records(s.audit),
+    version: 8
+  }),
+  // v8 -> v9: completions carry the points they were worth when checked.
+  // Older rows get their chore's current value, the best record there is.
+  8: (s) => {
+    const points = new Map(records(s.chores).map(ch => [ch.id, num(ch.points) ?? 0]));
     return {
-      kids: [], chores: [], rewards: [], completions: [], payouts: [],
-      settings: { dollarsPerPoint: 0.1, hideCompletedOnBoard: true },
-      version: 2
+      ...s,
+      completions: records(s.completions).map(c => ({
+        ...c,
+        points: c.points ?? points.get(c.choreId) ?? 0
+      })),
+      version: 9
     };
+  },
+  // v9 -> v10: savings goals
+  9: (s) => ({
+    ...s,
+    goals: records(s.goals),
+    version: 10
+  }),
+  // v10 -> v11: spend/save/give jars. Money already paid out was all spend.
+  10: (s) => ({
+    ...s,
+    payouts: records(s.payouts).map(p => ({
+      ...p,
+      jars: p.jars ?? { spend: num(p.amount) ?? 0, save: 0, give: 0 }
+    })),
+    jarEntries: records(s.jarEntries),
+    version: 11
+  }),
+  // v11 -> v12: a reward's stock counts the units its requests hold, and
+  // what's left is derived (utils.stockLeft)
+  11: (s) => ({
+    ...s,
+    rewards: records(s.rewards).map(r => {
+      const stock = num(r.stock);
+      if (stock === undefined) return r;
+      const held = records(s.redemptions).filter(x => x.rewardId === r.id && x.status !== 'rejected').length;
+      return { ...r, stock: stock + held };
+    }),
+    version: 12
+  })
+};
+
+// Data written by a newer build. Loading it would drop whatever this build
+// doesn't know about, so callers must leave it alone rather than start fresh.
+export class NewerVersionError extends Error {
+  constructor(version: number) {
+    super(`This data was saved by a newer version of Loop (v${version}; this one reads up to v${CURRENT_VERSION}). Update the app to open it.`);
+    this.name = 'NewerVersionError';
   }
+}
+
+export function migrate(raw: unknown): State {
+  let s = fields(raw);
+  let v = num(s.version) ?? 1;
+  if (v > CURRENT_VERSION) throw new NewerVersionError(v);
+  while (v < CURRENT_VERSION) {
+    s = MIGRATIONS[v](s);
+    v++;
+  }
+  const base = emptyState();
+  return { ...base, ...s, settings: { ...base.settings, ...fields(s.settings) } } as State;
+}
+
+// Union of two states; `a` wins when the same id (or the same
+// kid|chore|date completion) appears in both.
+export function mergeStates(a: State, b: State): State {
+  const byId = <T extends { id: string }>(xs: T[], ys: T[]) => {
+    const seen = new Set(xs.map(x => x.id));
+    return [...xs, ...ys.filter(y => !seen.has(y.id))];
+  };
+  const ckey = (c: State['completions'][number]) => `${c.kidId}|${c.choreId}|${c.dateISO}`;
+  const done = new Set(a.completions.map(ckey));
+  return {
+    ...b,
+    ...a,
+    kids: byId(a.kids, b.kids),
+    chores: byId(a.chores, b.chores),
+    completions: [...a.completions, ...b.completions.filter(c => !done.has(ckey(c)))],
+    adjustments: byId(a.adjustments, b.adjustments),
+    bonuses: byId(a.bonuses, b.bonuses),
+    payouts: byId(a.payouts, b.payouts),
+    jarEntries: byId(a.jarEntries, b.jarEntries),
+    rewards: byId(a.rewards, b.rewards),
+    redemptions: byId(a.redemptions, b.redemptions),
+    goals: byId(a.goals, b.goals),
+    audit: byId(a.audit, b.audit).sort((x, y) => x.timestampISO.localeCompare(y.timestampISO)),
+    settings: { ...b.settings, ...a.settings }
+  };
+}
+
+// null when missing or unreadable; a newer build's data throws instead.
+function read(key: string): State | null {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
   try {
-    const parsed = JSON.parse(raw);
-    return {
-      version: 2,
-      kids: [], chores: [], rewards: [], completions: [], payouts: [],
-      settings: { dollarsPerPoint: 0.1, hideCompletedOnBoard: true },
-      ...parsed
-    };
-  } catch {
-    return {
-      kids: [], chores: [], rewards: [], completions: [], payouts: [],
-      settings: { dollarsPerPoint: 0.1, hideCompletedOnBoard: true },
-      version: 2
-    };
+    return migrate(JSON.parse(raw));
+  } catch (err) {
+    if (err instanceof NewerVersionError) throw err;
+    return null;
   }
 }
 
+// Throws NewerVersionError (and touches nothing) if KEY holds a newer build's data.
+export function loadState(): State {
+  const current = read(KEY);
+  if (current) return current;
+  const legacy = LEGACY_KEYS.map(read).filter((s): s is State => s !== null);
+  return legacy.length ? legacy.reduce((acc, s) => mergeStates(acc, s)) : emptyState();
+}
+
 export function saveState(s: State) {
   localStorage.setItem(KEY, JSON.stringify(s));
 }
+
+// ------------ Pluggable backends ------------
+
+export interface StorageAdapter {
+  load(): Promise<State>;
+  // `prev` is the state last loaded or saved (null on the first save), so
+  // backends can write only what changed.
+  save(prev: State | null, next: State): Promise<void>;
+  // Daily backups, newest first.
+  listSnapshots(): Promise<Snapshot[]>;
+  // Store `snap` (replacing its day's) and drop any from before `cutoffISO`.
+  saveSnapshot(snap: Snapshot, cutoffISO: string): Promise<void>;
+}
+
+export function readLocalSnapshots(): Snapshot[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(SNAPSHOT_KEY) ?? '[]');
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export function dropLocalSnapshots() {
+  localStorage.removeItem(SNAPSHOT_KEY);
+}
+
+// Each snapshot is a whole state, so this runs out of quota quickly: drop
+// the oldest and try again, down to just the newest.
+function writeLocalSnapshots(list: Snapshot[]) {
+  for (let keep = list.length; keep > 0; keep--) {
+    try {
+      localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(list.slice(0, keep)));
+      return;
+    } catch {
+      continue;
+    }
+  }
+}
+
+// Whole state as one JSON blob under KEY, snapshots as a list under SNAPSHOT_KEY.
+export const localStorageAdapter: StorageAdapter = {
+  load: async () => loadState(),
+  save: async (_prev, next) => saveState(next),
+  listSnapshots: async () => readLocalSnapshots(),
+  saveSnapshot: async (snap, cutoffISO) => writeLocalSnapshots(
+    [snap, ...readLocalSnapshots().filter(s => s.dateISO !== snap.dateISO)]
+      .filter(s => s.dateISO >= cutoffISO)
+      .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+  )
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { Chore, Completion, State } from './types'
+import { emptyState } from './storage'
+import { reconcileStreakBonuses } from './streaks'
+
+const daily = (id: string, extra: Partial<Chore> = {}): Chore => ({
+  id, title: id, points: 1, schedule: { type: 'daily' }, kidIds: ['a'], ...extra
+});
+const done = (choreId: string, dateISO: string): Completion => ({
+  id: `${choreId}-${dateISO}`, kidId: 'a', choreId, dateISO, status: 'approved', points: 1
+});
+
+describe('reconcileStreakBonuses', () => {
+  const earned = (): State => {
+    const s: State = {
+      ...emptyState(),
+      kids: [{ id: 'a', name: 'A' }],
+      chores: [daily('bed')],
+      completions: ['2024-05-01', '2024-05-02', '2024-05-03'].map(d => done('bed', d))
+    };
+    s.settings = { ...s.settings, streakRules: [{ days: 3, points: 10 }] };
+    return { ...s, bonuses: reconcileStreakBonuses(s, '2024-05-01', '2024-05-03') };
+  };
+
+  it('keeps a bonus earned before a chore was added', () => {
+    const s = earned();
+    expect(s.bonuses).toHaveLength(1);
+    const later = {
+      ...s,
+      chores: [...s.chores, daily('dishes', { createdISO: '2024-05-10' })],
+      completions: [...s.completions, done('dishes', '2024-05-10')]
+    };
+    expect(reconcileStreakBonuses(later, '2024-05-10', '2024-05-10')).toEqual(s.bonuses);
+  });
+
+  it('only re-checks days from the changed completion on', () => {
+    const s = earned();
+    // an older chore with no created date now counts as missed on 05-02
+    const later = {
+      ...s,
+      chores: [...s.chores, daily('dishes', { schedule: { type: 'custom', dates: ['2024-05-02'] } })],
+      completions: [...s.completions, done('bed', '2024-05-10')]
+    };
+    expect(reconcileStreakBonuses(later, '2024-05-10', '2024-05-10')).toEqual(s.bonuses);
+  });
+
+  it('revokes a bonus when a completion it needed is unchecked', () => {
+    const s = earned();
+    const later = { ...s, completions: s.completions.filter(c => c.dateISO !== '2024-05-02') };
+    expect(reconcileStreakBonuses(later, '2024-05-02', '2024-05-10')).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { addDays, parseISO } from 'date-fns'
+import { BonusLog, State } from './types'
+import { choresDueFor, isFullyDone, toISO } from './utils'
+
+// A streak is a run of days on which every chore due for the kid was done.
+// Days with nothing due neither extend nor break it. Only approved checks
+// with every step ticked count.
+
+function approvedDone(state: State, kidId: string) {
+  const chores = new Map(state.chores.map(ch => [ch.id, ch]));
+  return state.completions.filter(
+    c => c.kidId === kidId && c.status === 'approved' && isFullyDone(chores.get(c.choreId), c)
+  );
+}
+
+function doneSet(state: State, kidId: string) {
+  return new Set(approvedDone(state, kidId).map(c => `${c.choreId}|${c.dateISO}`));
+}
+
+// true = all due chores done, false = something missed, null = nothing due
+function dayResult(state: State, kidId: string, dateISO: string, done: Set<string>) {
+  const due = choresDueFor(state, kidId, dateISO);
+  if (due.length === 0) return null;
+  return due.every(ch => done.has(`${ch.id}|${dateISO}`));
+}
+
+function firstCompletionISO(state: State, kidId: string) {
+  let first: string | null = null;
+  for (const c of approvedDone(state, kidId)) {
+    if (!first || c.dateISO < first) first = c.dateISO;
+  }
+  return first;
+}
+
+// Streak length on each day from the kid's first completion through `untilISO`.
+function streakByDay(state: State, kidId: string, untilISO: string) {
+  const out = new Map<string, number>();
+  const first = firstCompletionISO(state, kidId);
+  if (!first) return out;
+  const done = doneSet(state, kidId);
+  let streak = 0;
+  for (let d = parseISO(first); toISO(d) <= untilISO; d = addDays(d, 1)) {
+    const iso = toISO(d);
+    const r = dayResult(state, kidId, iso, done);
+    if (r === false) streak = 0;
+    if (r === true) streak++;
+    out.set(iso, streak);
+  }
+  return out;
+}
+
+// Streak as of `dateISO`. An unfinished `dateISO` doesn't break it yet,
+// since the kid still has the rest of the day.
+export function currentStreak(state: State, kidId: string, dateISO: string) {
+  const byDay = streakByDay(state, kidId, dateISO);
+  const today = byDay.get(dateISO);
+  if (today) return today;
+  return byDay.get(toISO(addDays(parseISO(dateISO), -1))) ?? 0;
+}
+
+// Bonuses this engine writes have ids derived from what they pay for, so
+// every device writes the same record. Anything else (entered by hand,
+// migrated, or from before these ids) is never touched.
+const bonusId = (kidId: string, dateISO: string, len: number) => `streak-${kidId}-${dateISO}-${len}`;
+const isEngineBonus = (b: BonusLog) => b.id === bonusId(b.kidId, b.dateISO, b.streakLength);
+
+// Recompute streak bonuses after completions changed on `sinceISO`.
+// Only days from `sinceISO` on are re-checked: there the engine's own
+// records are kept as long as the streak they were paid for still stands,
+// so an un-toggle revokes them, and earlier ones are never touched. New
+// records are only written for thresholds reached on or after `payFromISO`
+// (default `sinceISO`); editing the rules therefore never pays out
+// retroactively.
+export function reconcileStreakBonuses(
+  state: State, sinceISO: string, todayISO = toISO(new Date()), payFromISO = sinceISO
+): BonusLog[] {
+  const rules = state.settings.streakRules.filter(r => r.days > 0);
+  const byKid = new Map(state.kids.map(k => [k.id, streakByDay(state, k.id, todayISO)]));
+  const key = (kidId: string, dateISO: string, len: number) => `${kidId}|${dateISO}|${len}`;
+
+  const kept = state.bonuses.filter(b => {
+    const days = byKid.get(b.kidId);
+    if (!days || !isEngineBonus(b) || b.dateISO < sinceISO || b.dateISO > todayISO) return true;
+    return days.get(b.dateISO) === b.streakLength;
+  });
+  const have = new Set(kept.map(b => key(b.kidId, b.dateISO, b.streakLength)));
+
+  const added: BonusLog[] = [];
+  for (const [kidId, days] of byKid) {
+    for (const [dateISO, len] of days) {
+      if (dateISO < payFromISO) continue;
+      for (const rule of rules) {
+        if (rule.days !== len || have.has(key(kidId, dateISO, len))) continue;
+        added.push({ id: bonusId(kidId, dateISO, len), kidId, dateISO, streakLength: len, points: rule.points });
+      }
+    }
+  }
+  return [...kept, ...added];
+}
+
+export function withStreakBonuses(state: State, sinceISO: string, todayISO: string, payFromISO = sinceISO): State {
+  return { ...state, bonuses: reconcileStreakBonuses(state, sinceISO, todayISO, payFromISO) };
+}
@@ -0,0 +1,94 @@
+// Reference sync server for Loop. No dependencies:
+//
+//   SYNC_TOKEN=secret npm run sync-server
+//
+// Env: PORT (default 8787), SYNC_FILE (default ./sync-data.jsonl),
+// SYNC_TOKEN (optional; clients must send "Authorization: Bearer <token>").
+//
+// The server only orders ops; clients resolve conflicts themselves.
+//   POST /ops            { ops: Envelope[] }  -> { seq }   (duplicate ids ignored)
+//   GET  /ops?since=n    &limit=m             -> { ops: Envelope[], seq }
+// `seq` is the sequence number of the last op returned; pass it back as `since`.
+
+import { createServer } from 'node:http';
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const FILE = process.env.SYNC_FILE || 'sync-data.jsonl';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY = 5 * 1024 * 1024;
+
+// One line per op: { seq, env }
+const log = existsSync(FILE)
+  ? readFileSync(FILE, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+  : [];
+const seen = new Set(log.map(row => row.env.id));
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error('Body too large'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const isEnvelope = e =>
+  e && typeof e.id === 'string' && typeof e.deviceId === 'string' &&
+  typeof e.stamp === 'string' && e.op && typeof e.op.type === 'string';
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname !== '/ops') return send(res, 404, { error: 'Not found' });
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  if (req.method === 'GET') {
+    const since = Math.max(0, Number(url.searchParams.get('since')) || 0);
+    const limit = Math.min(1000, Math.max(1, Number(url.searchParams.get('limit')) || 500));
+    const rows = log.slice(since, since + limit); // seq n lives at index n - 1
+    return send(res, 200, { ops: rows.map(r => r.env), seq: since + rows.length });
+  }
+
+  if (req.method === 'POST') {
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      return send(res, 400, { error: 'Expected JSON' });
+    }
+    if (!Array.isArray(body?.ops) || !body.ops.every(isEnvelope)) {
+      return send(res, 400, { error: 'Expected { ops: Envelope[] }' });
+    }
+    const rows = [];
+    for (const env of body.ops) {
+      if (seen.has(env.id)) continue;
+      seen.add(env.id);
+      rows.push({ seq: log.length + rows.length + 1, env });
+    }
+    if (rows.length) appendFileSync(FILE, rows.map(r => JSON.stringify(r) + '\n').join(''));
+    log.push(...rows);
+    return send(res, 200, { seq: log.length });
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+}).listen(PORT, () => console.log(`Loop sync server on http://localhost:${PORT} (${log.length} ops)`));
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { Redemption, Reward, State } from './types'
+import { emptyState } from './storage'
+import { SyncEnvelope, SyncOp, addsSyncedRecords, applyOps } from './sync'
+import { stockLeft } from './utils'
+
+const env = (op: SyncOp, n: number): SyncEnvelope => ({ id: `e${n}`, deviceId: 'd', stamp: `${n}`, op });
+
+describe('applyOps', () => {
+  it('leaves the same reward stock whatever order ops arrive in', () => {
+    const reward: Reward = { id: 'r', title: 'Movie', cost: 10, stock: 5, requiresApproval: false };
+    const redemption: Redemption = {
+      id: 'x', kidId: 'a', rewardId: 'r', title: 'Movie', cost: 10, status: 'approved',
+      timestampISO: '2024-05-01T12:00:00.000Z'
+    };
+    const base: State = { ...emptyState(), rewards: [reward] };
+    const ops = [env({ type: 'redemption', redemption }, 1), env({ type: 'upsertReward', reward }, 2)];
+    const left = (s: State) => stockLeft(s.redemptions, s.rewards[0]);
+    expect(left(applyOps(base, ops, '2024-05-01'))).toBe(4);
+    expect(left(applyOps(base, [...ops].reverse(), '2024-05-01'))).toBe(4);
+  });
+});
+
+describe('addsSyncedRecords', () => {
+  const base: State = { ...emptyState(), kids: [{ id: 'a', name: 'A' }] };
+
+  it('flags a step that added a record other devices keep', () => {
+    const adjustment = { id: 'x', kidId: 'a', delta: 5, timestampISO: '2024-05-01T12:00:00.000Z' };
+    expect(addsSyncedRecords(base, { ...base, adjustments: [adjustment] })).toBe(true);
+  });
+
+  it('lets register changes through', () => {
+    const completion = {
+      id: 'c', kidId: 'a', choreId: 'bed', dateISO: '2024-05-01', status: 'approved', points: 1
+    } as const;
+    expect(addsSyncedRecords(base, { ...base, completions: [completion] })).toBe(false);
+  });
+});
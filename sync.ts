@@ -0,0 +1,382 @@
+import { AdjustmentLog, ApprovedPart, Chore, CompletionStatus, JarEntry, Jars, Kid, Payout, Redemption, Reward, State } from './types'
+import { kidSplit, uid } from './utils'
+import { withStreakBonuses } from './streaks'
+
+// ------------ Operation log ------------
+// Synced mutations. Each op is idempotent: adds are keyed by id, and the
+// overwrites (a completion's status per kid|chore|date, a chore's or a
+// reward's definition, a redemption's status, a kid's jar split) are
+// last-writer-wins registers, so replaying ops in any order on any device
+// converges. Nothing is counted up or down by an op: a reward's stock left
+// is derived from the redemptions (utils.stockLeft). Chores ride along so
+// completions point at the same ids everywhere.
+
+export type SyncOp =
+  | {
+      type: 'setCompletion'; completionId: string; kidId: string; choreId: string; dateISO: string;
+      status: CompletionStatus | null;
+      points?: number;     // missing from ops recorded before completions kept their points
+      late?: boolean;
+      stepIds?: string[];
+      approved?: ApprovedPart;
+    }
+  | { type: 'addKid'; kid: Kid }
+  | { type: 'setJars'; kidId: string; jars: Jars }
+  | { type: 'adjust'; adjustment: AdjustmentLog }
+  | {
+      type: 'payout';
+      payout: Omit<Payout, 'jars'> & { jars?: Jars }; // no jars in ops recorded before there were jars
+    }
+  | { type: 'jar'; entry: JarEntry }
+  | { type: 'upsertChore'; chore: Chore }
+  | { type: 'upsertReward'; reward: Reward }
+  | { type: 'deleteReward'; rewardId: string }
+  | { type: 'redemption'; redemption: Redemption }; // a new one, or its status changed
+
+export interface SyncEnvelope {
+  id: string;
+  deviceId: string;
+  stamp: string;           // see nextStamp(); orders writes to the same register
+  op: SyncOp;
+}
+
+// Per-device bookkeeping. Kept out of State so exports and snapshots don't
+// carry another device's queue.
+interface SyncMeta {
+  deviceId: string;
+  serverUrl: string;       // '' = sync off
+  token: string;
+  lastSeq: number;         // highest server sequence number pulled
+  lastTs: number;          // for nextStamp()
+  pending: SyncEnvelope[]; // recorded while offline, not yet accepted by the server
+  clocks: Record<string, string>; // register key -> stamp of the write applied
+  seed: SyncOp[] | null;   // local history to offer once the first pull is in
+  lastSyncISO?: string;
+}
+
+const META_KEY = 'loop_sync';
+const PAGE = 500;
+
+function loadMeta(): SyncMeta {
+  const fresh: SyncMeta = {
+    deviceId: uid(), serverUrl: '', token: '', lastSeq: 0, lastTs: 0, pending: [], clocks: {}, seed: null
+  };
+  try {
+    return { ...fresh, ...JSON.parse(localStorage.getItem(META_KEY) ?? '{}') };
+  } catch {
+    return fresh;
+  }
+}
+
+const meta = loadMeta();
+const saveMeta = () => localStorage.setItem(META_KEY, JSON.stringify(meta));
+
+// Hybrid clock: wall time, bumped past anything seen so a device with a slow
+// clock still orders after what it already knows. Ties break on device id,
+// so every device picks the same winner.
+function nextStamp() {
+  meta.lastTs = Math.max(Date.now(), meta.lastTs + 1);
+  return `${meta.lastTs.toString(36).padStart(11, '0')}|${meta.deviceId}`;
+}
+
+// Older than any real write, for history that predates connecting: whatever
+// the server already holds wins over it.
+const seedStamp = () => `${'0'.repeat(11)}|${meta.deviceId}`;
+
+function observeStamp(stamp: string) {
+  const ts = parseInt(stamp.split('|')[0], 36);
+  if (ts > meta.lastTs) meta.lastTs = ts;
+}
+
+// The last-writer-wins register an op writes, or null for add-only ops.
+function registerKey(op: SyncOp) {
+  return (
+    op.type === 'setCompletion' ? `completion|${op.kidId}|${op.choreId}|${op.dateISO}` :
+    op.type === 'setJars' ? `jars|${op.kidId}` :
+    op.type === 'upsertChore' ? `chore|${op.chore.id}` :
+    op.type === 'upsertReward' ? `reward|${op.reward.id}` :
+    op.type === 'deleteReward' ? `reward|${op.rewardId}` :
+    op.type === 'redemption' ? `redemption|${op.redemption.id}` :
+    null
+  );
+}
+
+// What an op is about: its register, or the record it adds.
+function subjectKey(op: SyncOp): string {
+  switch (op.type) {
+    case 'addKid': return `kid|${op.kid.id}`;
+    case 'adjust': return `adjust|${op.adjustment.id}`;
+    case 'payout': return `payout|${op.payout.id}`;
+    case 'jar': return `jar|${op.entry.id}`;
+    default: return registerKey(op)!;
+  }
+}
+
+// Does `env` win its register? Records the win. Add-only ops always pass, and
+// so does a repeat of the winning op.
+function claim(env: SyncEnvelope) {
+  const key = registerKey(env.op);
+  if (!key) return true;
+  const held = meta.clocks[key];
+  if (held && held > env.stamp) return false;
+  meta.clocks[key] = env.stamp;
+  return true;
+}
+
+function applyUnchecked(s: State, op: SyncOp): State {
+  switch (op.type) {
+    case 'setCompletion': {
+      const key = `${op.kidId}|${op.choreId}|${op.dateISO}`;
+      const rest = s.completions.filter(c => `${c.kidId}|${c.choreId}|${c.dateISO}` !== key);
+      const completions = op.status
+        ? [...rest, {
+            id: op.completionId, kidId: op.kidId, choreId: op.choreId, dateISO: op.dateISO, status: op.status,
+            points: op.points ?? s.chores.find(ch => ch.id === op.choreId)?.points ?? 0,
+            ...(op.late ? { late: true } : {}),
+            ...(op.stepIds ? { stepIds: op.stepIds } : {}),
+            ...(op.approved ? { approved: op.approved } : {})
+          }]
+        : rest;
+      return { ...s, completions };
+    }
+    case 'addKid':
+      return s.kids.some(k => k.id === op.kid.id) ? s : { ...s, kids: [...s.kids, op.kid] };
+    case 'setJars':
+      return { ...s, kids: s.kids.map(k => (k.id === op.kidId ? { ...k, jars: op.jars } : k)) };
+    case 'adjust':
+      return s.adjustments.some(a => a.id === op.adjustment.id)
+        ? s
+        : { ...s, adjustments: [...s.adjustments, op.adjustment] };
+    case 'payout': {
+      if (s.payouts.some(p => p.id === op.payout.id)) return s;
+      const payout = { ...op.payout, jars: op.payout.jars ?? { spend: op.payout.amount, save: 0, give: 0 } };
+      return { ...s, payouts: [...s.payouts, payout] };
+    }
+    case 'jar':
+      return s.jarEntries.some(e => e.id === op.entry.id) ? s : { ...s, jarEntries: [...s.jarEntries, op.entry] };
+    case 'upsertChore':
+      return s.chores.some(ch => ch.id === op.chore.id)
+        ? { ...s, chores: s.chores.map(ch => (ch.id === op.chore.id ? op.chore : ch)) }
+        : { ...s, chores: [...s.chores, op.chore] };
+    case 'upsertReward':
+      return s.rewards.some(r => r.id === op.reward.id)
+        ? { ...s, rewards: s.rewards.map(r => (r.id === op.reward.id ? op.reward : r)) }
+        : { ...s, rewards: [...s.rewards, op.reward] };
+    case 'deleteReward':
+      // redemptions keep their own title/cost, so history survives
+      return { ...s, rewards: s.rewards.filter(r => r.id !== op.rewardId) };
+    case 'redemption': {
+      const red = op.redemption;
+      return s.redemptions.some(r => r.id === red.id)
+        ? { ...s, redemptions: s.redemptions.map(r => (r.id === red.id ? red : r)) }
+        : { ...s, redemptions: [...s.redemptions, red] };
+    }
+  }
+}
+
+// Apply ops that won their registers (see recordOp and acceptOps). Pure,
+// so the reducer can call it. Streak bonuses are reconciled once for the
+// batch, from its earliest completion.
+export function applyOps(s: State, envs: SyncEnvelope[], todayISO: string): State {
+  let sinceISO: string | null = null;
+  for (const { op } of envs) {
+    s = applyUnchecked(s, op);
+    if (op.type === 'setCompletion' && (!sinceISO || op.dateISO < sinceISO)) sinceISO = op.dateISO;
+  }
+  return sinceISO ? withStreakBonuses(s, sinceISO, todayISO) : s;
+}
+
+// The remote ops that win their registers here, recorded as the current
+// writes. Stale ones are dropped.
+export function acceptOps(envs: SyncEnvelope[]): SyncEnvelope[] {
+  const won = envs.filter(env => {
+    observeStamp(env.stamp);
+    return claim(env);
+  });
+  saveMeta();
+  return won;
+}
+
+// Stamp a local mutation, claim its register and queue it for the server
+// (when sync is on). The caller applies the returned envelope with applyOps.
+export function recordOp(op: SyncOp): SyncEnvelope {
+  const env = { id: uid(), deviceId: meta.deviceId, stamp: nextStamp(), op };
+  claim(env);
+  if (meta.serverUrl) meta.pending.push(env);
+  saveMeta();
+  return env;
+}
+
+// Ops that move `from`'s synced registers (completions, jar splits, chores,
+// rewards, redemption statuses) to `to`'s, e.g. so an undo reaches the other devices.
+// Adds, redemptions included, can't be taken back.
+export function diffOps(from: State, to: State): SyncOp[] {
+  const key = (c: { kidId: string; choreId: string; dateISO: string }) => `${c.kidId}|${c.choreId}|${c.dateISO}`;
+  const have = new Map(from.completions.map(c => [key(c), c]));
+  const want = new Map(to.completions.map(c => [key(c), c]));
+  const ops: SyncOp[] = [];
+  for (const k of new Set([...have.keys(), ...want.keys()])) {
+    const a = have.get(k);
+    const b = want.get(k);
+    if (
+      a?.status === b?.status && a?.points === b?.points && a?.late === b?.late &&
+      a?.stepIds?.join() === b?.stepIds?.join() && JSON.stringify(a?.approved) === JSON.stringify(b?.approved)
+    ) continue;
+    const c = (b ?? a)!;
+    ops.push({
+      type: 'setCompletion', completionId: c.id, kidId: c.kidId, choreId: c.choreId, dateISO: c.dateISO,
+      status: b?.status ?? null, points: c.points, late: c.late, stepIds: c.stepIds, approved: b?.approved
+    });
+  }
+  const kids = new Map(from.kids.map(k => [k.id, k]));
+  for (const k of to.kids) {
+    const was = kids.get(k.id);
+    if (was && was.jars !== k.jars) ops.push({ type: 'setJars', kidId: k.id, jars: kidSplit(k) });
+  }
+  const chores = new Map(from.chores.map(ch => [ch.id, ch]));
+  for (const ch of to.chores) {
+    if (chores.get(ch.id) !== ch) ops.push({ type: 'upsertChore', chore: ch });
+  }
+  const redemptions = new Map(from.redemptions.map(r => [r.id, r]));
+  for (const r of to.redemptions) {
+    const was = redemptions.get(r.id);
+    if (was && was !== r) ops.push({ type: 'redemption', redemption: r });
+  }
+  const rewards = new Map(from.rewards.map(r => [r.id, r]));
+  for (const r of to.rewards) {
+    if (rewards.get(r.id) !== r) ops.push({ type: 'upsertReward', reward: r });
+    rewards.delete(r.id);
+  }
+  for (const id of rewards.keys()) ops.push({ type: 'deleteReward', rewardId: id });
+  return ops;
+}
+
+// Whether `to` has records `from` lacks in the add-only lists (kids, point
+// adjustments, payouts, jar money, redemptions). No op takes one back, so
+// undoing the step that added it can't reach the other devices.
+export function addsSyncedRecords(from: State, to: State) {
+  const added = (a: { id: string }[], b: { id: string }[]) => {
+    const ids = new Set(a.map(x => x.id));
+    return b.some(x => !ids.has(x.id));
+  };
+  return (
+    added(from.kids, to.kids) || added(from.adjustments, to.adjustments) || added(from.payouts, to.payouts) ||
+    added(from.jarEntries, to.jarEntries) || added(from.redemptions, to.redemptions)
+  );
+}
+
+// Everything this device already knows, as ops, for the first connect.
+function historyOps(s: State): SyncOp[] {
+  return [
+    ...s.kids.map(kid => ({ type: 'addKid', kid }) as const),
+    // the split can change after the kid is added, so it has its own register
+    ...s.kids.filter(k => k.jars).map(k => ({ type: 'setJars', kidId: k.id, jars: kidSplit(k) }) as const),
+    ...s.chores.map(chore => ({ type: 'upsertChore', chore }) as const),
+    ...s.completions.map(c => ({
+      type: 'setCompletion', completionId: c.id, kidId: c.kidId, choreId: c.choreId, dateISO: c.dateISO,
+      status: c.status, points: c.points, late: c.late, stepIds: c.stepIds, approved: c.approved
+    }) as const),
+    ...s.adjustments.map(adjustment => ({ type: 'adjust', adjustment }) as const),
+    ...s.payouts.map(payout => ({ type: 'payout', payout }) as const),
+    ...s.jarEntries.map(entry => ({ type: 'jar', entry }) as const),
+    ...s.redemptions.map(redemption => ({ type: 'redemption', redemption }) as const),
+    ...s.rewards.map(reward => ({ type: 'upsertReward', reward }) as const),
+  ];
+}
+
+// ------------ Client ------------
+
+export interface SyncStatus {
+  serverUrl: string;
+  deviceId: string;
+  pending: number;
+  lastSyncISO?: string;
+}
+
+export function syncStatus(): SyncStatus {
+  return {
+    serverUrl: meta.serverUrl,
+    deviceId: meta.deviceId,
+    pending: meta.pending.length,
+    lastSyncISO: meta.lastSyncISO
+  };
+}
+
+// Point this device at a server ('' turns sync off). Connecting sets the
+// local history aside; the first sync offers the part the server lacks.
+// Local registers are forgotten, so the server's writes win over them.
+export function configureSync(serverUrl: string, token: string, state: State) {
+  const url = serverUrl.trim().replace(/\/+$/, '');
+  const changed = url !== meta.serverUrl;
+  meta.serverUrl = url;
+  meta.token = url ? token.trim() || meta.token : ''; // blank keeps the saved token
+  if (changed) {
+    meta.lastSeq = 0;
+    meta.pending = [];
+    meta.clocks = {};
+    meta.seed = url ? historyOps(state) : null;
+  }
+  saveMeta();
+}
+
+async function call(path: string, init?: RequestInit) {
+  const res = await fetch(`${meta.serverUrl}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(meta.token ? { Authorization: `Bearer ${meta.token}` } : {})
+    }
+  });
+  if (!res.ok) throw new Error(`Sync server replied ${res.status}`);
+  return res.json();
+}
+
+let running = false;
+
+// Everything new from other devices since the last pull.
+async function pull() {
+  const remote: SyncEnvelope[] = [];
+  for (;;) {
+    const page: { ops: SyncEnvelope[]; seq: number } = await call(`/ops?since=${meta.lastSeq}&limit=${PAGE}`);
+    remote.push(...page.ops.filter(env => env.deviceId !== meta.deviceId));
+    meta.lastSeq = page.seq;
+    if (page.ops.length < PAGE) break;
+  }
+  return remote;
+}
+
+// Push queued ops, then pull everything new from other devices. Returns the
+// remote ops for the caller to pass through acceptOps and fold in with
+// applyOps. Network errors leave the queue intact for the next attempt.
+export async function syncNow(): Promise<SyncEnvelope[]> {
+  if (!meta.serverUrl || running) return [];
+  running = true;
+  try {
+    // first sync with this server: see what it has before offering history,
+    // and only queue what it doesn't know about, at the lowest stamp
+    const remote = meta.seed ? await pull() : [];
+    if (meta.seed) {
+      const known = new Set(remote.map(env => subjectKey(env.op)));
+      const seed = meta.seed
+        .filter(op => !known.has(subjectKey(op)))
+        .map(op => ({ id: uid(), deviceId: meta.deviceId, stamp: seedStamp(), op }));
+      meta.pending = [...seed, ...meta.pending];
+      meta.seed = null;
+      saveMeta();
+    }
+
+    while (meta.pending.length) {
+      const batch = meta.pending.slice(0, PAGE);
+      await call('/ops', { method: 'POST', body: JSON.stringify({ ops: batch }) });
+      meta.pending = meta.pending.slice(batch.length);
+      saveMeta();
+    }
+
+    remote.push(...(await pull()));
+    meta.lastSyncISO = new Date().toISOString();
+    saveMeta();
+    return remote;
+  } finally {
+    running = false;
+  }
+}
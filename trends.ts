@@ -0,0 +1,125 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { Chore, Kid, State } from './types'
+import { choresDueFor, earnedPoints, isFullyDone, toISO, weekRange } from './utils'
+
+// Numbers behind the Reports charts. Every function takes the Reports
+// filters (kids already narrowed to the kid filter, plus the date window).
+
+export type Bucket = 'day' | 'week';
+
+export interface PointsSeries {
+  labels: string[];        // one per bucket
+  perKid: { kid: Kid; values: number[] }[];
+}
+
+export interface Rate {
+  label: string;
+  done: number;
+  due: number;
+}
+
+// A chore due for a kid on a day, and whether it got an approved check with
+// every step ticked.
+interface Occurrence {
+  kidId: string;
+  chore: Chore;
+  dateISO: string;
+  done: boolean;
+}
+
+function daysBetween(startISO: string, endISO: string) {
+  const start = parseISO(startISO);
+  const n = differenceInCalendarDays(parseISO(endISO), start);
+  return Array.from({ length: Math.max(0, n + 1) }, (_, i) => toISO(addDays(start, i)));
+}
+
+// Future days aren't misses yet, so due/done stops at today.
+function occurrences(state: State, kids: Kid[], startISO: string, endISO: string, todayISO: string) {
+  const chores = new Map(state.chores.map(ch => [ch.id, ch]));
+  const done = new Set(
+    state.completions
+      .filter(c => c.status === 'approved' && isFullyDone(chores.get(c.choreId), c))
+      .map(c => `${c.kidId}|${c.choreId}|${c.dateISO}`)
+  );
+  const out: Occurrence[] = [];
+  const last = endISO < todayISO ? endISO : todayISO;
+  for (const dateISO of daysBetween(startISO, last)) {
+    for (const kid of kids) {
+      for (const chore of choresDueFor(state, kid.id, dateISO)) {
+        out.push({ kidId: kid.id, chore, dateISO, done: done.has(`${kid.id}|${chore.id}|${dateISO}`) });
+      }
+    }
+  }
+  return out;
+}
+
+// Approved chore points per kid per day, or per week (Sunday start).
+export function pointsSeries(
+  state: State, kids: Kid[], startISO: string, endISO: string, bucket: Bucket
+): PointsSeries {
+  const days = daysBetween(startISO, endISO);
+  const keyOf = (iso: string) => (bucket === 'day' ? iso : weekRange(parseISO(iso)).startISO);
+  const keys = [...new Set(days.map(keyOf))];
+  const index = new Map(keys.map((k, i) => [k, i]));
+
+  const perKid = kids.map(kid => ({ kid, values: keys.map(() => 0) }));
+  const row = new Map(perKid.map(r => [r.kid.id, r.values]));
+  for (const c of state.completions) {
+    if (c.dateISO < startISO || c.dateISO > endISO) continue;
+    const values = row.get(c.kidId);
+    if (values) values[index.get(keyOf(c.dateISO))!] += earnedPoints(c);
+  }
+
+  const labels = keys.map(k => format(parseISO(k), bucket === 'day' ? 'M/d' : "'wk' M/d"));
+  return { labels, perKid };
+}
+
+export interface Trends {
+  byKid: Rate[];
+  byChore: Rate[];
+  mostSkipped: { label: string; missed: number }[];
+  // rates[0..6] = done/due on Sun..Sat, null when nothing was due
+  weekdays: { kid: Kid; rates: (number | null)[] }[];
+}
+
+export function completionTrends(
+  state: State, kids: Kid[], startISO: string, endISO: string, todayISO = toISO(new Date())
+): Trends {
+  const occ = occurrences(state, kids, startISO, endISO, todayISO);
+
+  const tally = <K>(key: (o: Occurrence) => K) => {
+    const m = new Map<K, { done: number; due: number }>();
+    for (const o of occ) {
+      const t = m.get(key(o)) ?? { done: 0, due: 0 };
+      t.due++;
+      if (o.done) t.done++;
+      m.set(key(o), t);
+    }
+    return m;
+  };
+
+  const kidTally = tally(o => o.kidId);
+  const byKid = kids
+    .filter(k => kidTally.has(k.id))
+    .map(k => ({ label: k.name, ...kidTally.get(k.id)! }));
+
+  const choreTally = tally(o => o.chore);
+  const byChore = [...choreTally].map(([ch, t]) => ({ label: `${ch.icon || '🧹'} ${ch.title}`, ...t }));
+
+  const mostSkipped = byChore
+    .map(r => ({ label: r.label, missed: r.due - r.done }))
+    .filter(r => r.missed > 0)
+    .sort((a, b) => b.missed - a.missed)
+    .slice(0, 5);
+
+  const dayTally = tally(o => `${o.kidId}|${parseISO(o.dateISO).getDay()}`);
+  const weekdays = kids.map(kid => ({
+    kid,
+    rates: [0, 1, 2, 3, 4, 5, 6].map(d => {
+      const t = dayTally.get(`${kid.id}|${d}`);
+      return t ? t.done / t.due : null;
+    })
+  }));
+
+  return { byKid, byChore: byChore.sort((a, b) => a.done / a.due - b.done / b.due), mostSkipped, weekdays };
+}
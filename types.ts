@@ -1,35 +1,91 @@
 export type ID = string;
 
-export type ScheduleType = 'daily' | 'weekly' | 'custom';
+export type ScheduleType = 'daily' | 'weekly' | 'custom' | 'interval' | 'monthly';
+
+export interface NthWeekday {
+  n: number;               // 1..5, or -1 for the last one in the month
+  weekday: number;         // 0..6 for Sun..Sat
+}
 
 export interface ChoreSchedule {
   type: ScheduleType;
-  daysOfWeek?: number[];   // 0..6 for Sun..Sat
+  daysOfWeek?: number[];   // 0..6 for Sun..Sat; weekly, or interval by week
   dates?: string[];        // ISO dates for custom
+  every?: number;          // interval: every N units
+  unit?: 'day' | 'week';   // interval
+  anchorISO?: string;      // interval: first occurrence
+  dayOfMonth?: number;     // monthly: 1..31, clamped to the month's last day
+  nthWeekday?: NthWeekday; // monthly, used when dayOfMonth is not set
+  startISO?: string;       // any type: not due before this date
+  endISO?: string;         // any type: not due after this date
+  skipDates?: string[];    // any type: never due on these dates
+}
+
+// Named time-of-day groups on the Board, see utils.ROUTINES.
+export type RoutineId = 'morning' | 'afterSchool' | 'bedtime';
+
+// One item of a chore's checklist.
+export interface ChoreStep {
+  id: ID;
+  title: string;
+}
+
+// Take-turns assignment: each occurrence goes to the next kid in `kidIds`.
+export interface ChoreRotation {
+  startISO: string;        // occurrences are counted from here; #0 is kidIds[0]
+  swaps?: Record<string, ID>; // dateISO -> kid covering that one day
 }
 
 export interface Chore {
   id: ID;
   title: string;
   points: number;
+  icon?: string;
   schedule: ChoreSchedule;
-  kidIds: ID[];
+  kidIds: ID[];            // everyone listed, or the turn order when rotating
+  rotation?: ChoreRotation;
+  requiresApproval?: boolean; // a kid's check stays pending until a parent approves
+  steps?: ChoreStep[];     // sub-task checklist, ticked one by one on the Board
+  stepPoints?: 'all' | 'proportional'; // with steps: points once all are done (default), or a share per step
+  routine?: RoutineId;
+  dueTime?: string;        // 'HH:mm' local; checked after it (plus grace) counts as late
+  carryOverISO?: string;   // set = missed days from this date on keep showing until done
   order?: number;
+  archivedISO?: string;    // archived: not due from this date on, history kept
+  createdISO?: string;     // never due before this (unset on older chores)
 }
 
 export interface Kid {
   id: ID;
   name: string;
   emoji?: string;
-  points?: number;
+  avatar?: string;
+  color?: string;
+  archivedISO?: string;    // archived: hidden from the Board and pickers, history kept
+  jars?: Jars;             // % of money going into each jar; unset = all to spend
 }
 
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// 'started' = some steps of an all-or-nothing chore ticked; counts for nothing yet.
+export type CompletionStatus = ApprovalStatus | 'started';
+
 export interface Completion {
   id: ID;
   kidId: ID;
   choreId: ID;
   dateISO: string;         // yyyy-mm-dd
-  completed: boolean;
+  status: CompletionStatus; // only 'approved' earns points
+  points: number;          // the chore's value when checked; later edits don't change it
+  late?: boolean;          // checked after the due time; `points` already has the late rule applied
+  stepIds?: ID[];          // steps ticked, for chores with steps; unset on a check = all of them
+  approved?: ApprovedPart; // pending again after more steps: what a parent already approved, which keeps counting
+}
+
+// The approved state of a checklist while more ticked steps wait on a parent.
+export interface ApprovedPart {
+  points: number;
+  stepIds?: ID[];
 }
 
 export interface AdjustmentLog {
@@ -38,6 +94,7 @@ export interface AdjustmentLog {
   delta: number;
   reason?: string;
   timestampISO: string;    // Date.toISOString()
+  jars?: Jars;             // kid's split when made; its share of a payout goes by this (unset = the payout's split)
 }
 
 export interface BonusLog {
@@ -48,17 +105,136 @@ export interface BonusLog {
   points: number;
 }
 
+export type PayoutPeriod = 'weekly' | 'monthly';
+
+// Money is split into spend/save/give jars, see utils.jarBalances.
+export type JarName = 'spend' | 'save' | 'give';
+
+export type Jars = Record<JarName, number>;
+
+export interface Payout {
+  id: ID;
+  kidId: ID;
+  period: PayoutPeriod;
+  startISO: string;        // window that was paid, inclusive
+  endISO: string;
+  points: number;
+  amount: number;          // dollars, at the rate in effect when paid
+  jars: Jars;              // `amount` as split into the kid's jars when paid
+  timestampISO: string;
+}
+
+// Money a parent put into, took out of or moved between a kid's jars.
+// Payouts fill the jars on their own.
+export interface JarEntry {
+  id: ID;
+  kidId: ID;
+  amounts: Jars;           // dollars per jar, negative = taken out; a move nets to 0
+  note?: string;
+  timestampISO: string;
+}
+
+export interface Reward {
+  id: ID;
+  title: string;
+  cost: number;            // points
+  stock?: number;          // units stocked, requests included (see utils.stockLeft); undefined = unlimited
+  weeklyLimit?: number;    // per kid, per Sun..Sat week
+  requiresApproval: boolean;
+}
+
+export interface Redemption {
+  id: ID;
+  kidId: ID;
+  rewardId: ID;
+  title: string;           // reward title at redemption time
+  cost: number;
+  status: ApprovalStatus;
+  timestampISO: string;
+}
+
+// Something a kid is saving up for. Progress is derived, see utils.goalProgress.
+export interface Goal {
+  id: ID;
+  kidId: ID;
+  title: string;
+  target: number;          // in `unit`
+  unit: 'points' | 'dollars';
+  deadlineISO?: string;
+  allocatePercent?: number; // set aside this % of everything earned from createdISO on
+  createdISO: string;      // yyyy-mm-dd
+}
+
+// Bonus awarded the day a kid's streak reaches `days`.
+export interface StreakRule {
+  days: number;
+  points: number;
+}
+
+// What a chore checked after its due time is worth.
+export interface LateRule {
+  percent: number;         // % of the chore's points; 100 = no penalty
+  graceMinutes: number;    // not late until this long after the due time
+}
+
+// Points taken off for each chore left undone at the end of its day.
+export interface MissedPenalty {
+  points: number;          // 0 = off
+  sinceISO: string;        // days before this aren't charged (set when turned on)
+  settledISO?: string;     // days through this are settled, charged or not, and never looked at again
+}
+
+// Salted SHA-256 of the parent PIN, see pin.ts. The PIN itself is never stored.
+export interface ParentPin {
+  salt: string;
+  hash: string;
+}
+
 export interface Settings {
   hideCompletedOnBoard: boolean;
+  dollarsPerPoint: number;
+  streakRules: StreakRule[];
+  lateRule: LateRule;
+  missedPenalty: MissedPenalty;
+  parentPin?: ParentPin;   // unset = no lock, everything is parent mode
+  relockMinutes: number;   // parent mode locks again after this much idle time
+  kidModeKidId?: string;   // the kid using this device in kid mode, who may change their own avatar
+  snapshotDays: number;    // daily backups kept, see backup.ts
+}
+
+// Who made a change: the app in parent or kid mode, another device, or the
+// app on its own (missed-chore penalties).
+export type Actor = 'parent' | 'kid' | 'sync' | 'auto';
+
+// One line of the parent-visible history, see reducer.ts.
+export interface AuditEntry {
+  id: ID;
+  timestampISO: string;
+  actor: Actor;
+  summary: string;
 }
 
 export interface State {
+  version: number;         // schema version, see storage.ts
   kids: Kid[];
   chores: Chore[];
   completions: Completion[];
   adjustments: AdjustmentLog[];
   bonuses: BonusLog[];
+  payouts: Payout[];
+  jarEntries: JarEntry[];
+  rewards: Reward[];
+  redemptions: Redemption[];
+  goals: Goal[];
   settings: Settings;
+  audit: AuditEntry[];     // newest last, capped in reducer.ts
+}
+
+// A daily backup of the whole state, see backup.ts.
+export interface Snapshot {
+  dateISO: string;         // one snapshot per day
+  takenISO: string;
+  state: State;
 }
 
 
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest'
+import { AdjustmentLog, Chore, ChoreSchedule, Kid } from './types'
+import {
+  earnedPoints, isChoreDueOn, isFullyDone, nextDueDates, payoutJars, recheck, rotationAssignee, stepResult
+} from './utils'
+
+const chore = (schedule: ChoreSchedule): Chore => ({
+  id: 'c1', title: 'Test', points: 1, schedule, kidIds: ['k1']
+});
+
+describe('isChoreDueOn', () => {
+  it('runs in a time zone with DST', () => {
+    expect(new Date(2024, 2, 9).getTimezoneOffset()).not.toBe(new Date(2024, 2, 11).getTimezoneOffset());
+  });
+
+  describe('interval', () => {
+    it('keeps every-N-days on schedule across spring forward', () => {
+      // US clocks went forward on 2024-03-10
+      const c = chore({ type: 'interval', every: 2, unit: 'day', anchorISO: '2024-03-08' });
+      expect(nextDueDates(c, '2024-03-08', 4)).toEqual(['2024-03-08', '2024-03-10', '2024-03-12', '2024-03-14']);
+      expect(isChoreDueOn(c, '2024-03-11')).toBe(false);
+    });
+
+    it('keeps every-N-days on schedule across fall back', () => {
+      // US clocks went back on 2024-11-03
+      const c = chore({ type: 'interval', every: 3, unit: 'day', anchorISO: '2024-11-01' });
+      expect(nextDueDates(c, '2024-11-01', 3)).toEqual(['2024-11-01', '2024-11-04', '2024-11-07']);
+    });
+
+    it('keeps every-N-weeks on the anchor weekday across a clock change', () => {
+      const c = chore({ type: 'interval', every: 2, unit: 'week', anchorISO: '2024-03-04' });
+      expect(nextDueDates(c, '2024-03-01', 3)).toEqual(['2024-03-04', '2024-03-18', '2024-04-01']);
+    });
+
+    it('is never due before the anchor', () => {
+      const c = chore({ type: 'interval', every: 1, unit: 'day', anchorISO: '2024-03-08' });
+      expect(isChoreDueOn(c, '2024-03-07')).toBe(false);
+    });
+  });
+
+  describe('monthly day 31', () => {
+    const c = chore({ type: 'monthly', dayOfMonth: 31 });
+
+    it('clamps to Feb 28 in a common year', () => {
+      expect(isChoreDueOn(c, '2023-02-28')).toBe(true);
+      expect(isChoreDueOn(c, '2023-02-27')).toBe(false);
+    });
+
+    it('clamps to Feb 29 in a leap year', () => {
+      expect(isChoreDueOn(c, '2024-02-29')).toBe(true);
+      expect(isChoreDueOn(c, '2024-02-28')).toBe(false);
+    });
+
+    it('clamps to the 30th in short months and keeps the 31st in long ones', () => {
+      expect(isChoreDueOn(c, '2024-04-30')).toBe(true);
+      expect(isChoreDueOn(c, '2024-05-30')).toBe(false);
+      expect(isChoreDueOn(c, '2024-05-31')).toBe(true);
+    });
+  });
+
+  describe('nth weekday', () => {
+    it('matches the 2nd Tuesday only', () => {
+      const c = chore({ type: 'monthly', nthWeekday: { n: 2, weekday: 2 } });
+      expect(nextDueDates(c, '2024-01-01', 3)).toEqual(['2024-01-09', '2024-02-13', '2024-03-12']);
+    });
+
+    it('matches the last Friday, whether the month has four or five', () => {
+      const c = chore({ type: 'monthly', nthWeekday: { n: -1, weekday: 5 } });
+      // March 2024 has five Fridays, February four
+      expect(nextDueDates(c, '2024-02-01', 2)).toEqual(['2024-02-23', '2024-03-29']);
+      expect(isChoreDueOn(c, '2024-03-22')).toBe(false);
+    });
+
+    it('skips months without a 5th occurrence', () => {
+      const c = chore({ type: 'monthly', nthWeekday: { n: 5, weekday: 5 } });
+      expect(nextDueDates(c, '2024-02-01', 2)).toEqual(['2024-03-29', '2024-05-31']);
+    });
+  });
+
+  describe('bounds', () => {
+    const c = chore({ type: 'daily', startISO: '2024-05-10', endISO: '2024-05-12' });
+
+    it('is due on the start and end dates themselves', () => {
+      expect(isChoreDueOn(c, '2024-05-10')).toBe(true);
+      expect(isChoreDueOn(c, '2024-05-12')).toBe(true);
+    });
+
+    it('is not due outside them', () => {
+      expect(isChoreDueOn(c, '2024-05-09')).toBe(false);
+      expect(isChoreDueOn(c, '2024-05-13')).toBe(false);
+    });
+  });
+
+  describe('created date', () => {
+    it('is never due before the chore was created', () => {
+      const c = { ...chore({ type: 'daily' }), createdISO: '2024-05-10' };
+      expect(isChoreDueOn(c, '2024-05-09')).toBe(false);
+      expect(isChoreDueOn(c, '2024-05-10')).toBe(true);
+    });
+  });
+
+  describe('skip dates', () => {
+    it('drops a skipped date and keeps the rest', () => {
+      const c = chore({ type: 'weekly', daysOfWeek: [1], skipDates: ['2024-05-13'] });
+      expect(nextDueDates(c, '2024-05-06', 3)).toEqual(['2024-05-06', '2024-05-20', '2024-05-27']);
+    });
+
+    it('does not shift an interval schedule', () => {
+      const c = chore({ type: 'interval', every: 2, unit: 'day', anchorISO: '2024-05-01', skipDates: ['2024-05-03'] });
+      expect(nextDueDates(c, '2024-05-01', 3)).toEqual(['2024-05-01', '2024-05-05', '2024-05-07']);
+    });
+  });
+});
+
+describe('rotationAssignee', () => {
+  const rota: Chore = {
+    ...chore({ type: 'daily' }), kidIds: ['a', 'b', 'c'], rotation: { startISO: '2024-05-01' }
+  };
+  const kids: Kid[] = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B', archivedISO: '2024-05-04' }, { id: 'c', name: 'C' }];
+  const turns = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => rotationAssignee(rota, `2024-05-0${from + i}`, kids));
+
+  it('keeps the turns an archived kid had before leaving', () => {
+    expect(turns(1, 3)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('shares an archived kid\'s turns among the others', () => {
+    expect(turns(4, 7)).toEqual(['c', 'a', 'c', 'a']);
+  });
+});
+
+describe('payoutJars', () => {
+  const split = { spend: 50, save: 50, give: 0 };
+  const adj = (delta: number, jars?: AdjustmentLog['jars']): AdjustmentLog =>
+    ({ id: String(delta), kidId: 'a', delta, timestampISO: '2024-05-01T12:00:00.000Z', jars });
+
+  it('splits an adjustment by the percentages it was made under', () => {
+    // 80 chore points at 50/50, 20 bonus points all to give
+    expect(payoutJars(10, 100, [adj(20, { spend: 0, save: 0, give: 100 })], split))
+      .toEqual({ spend: 4, save: 4, give: 2 });
+  });
+
+  it('uses the payout split for adjustments without one', () => {
+    expect(payoutJars(10, 100, [adj(20)], split)).toEqual({ spend: 5, save: 5, give: 0 });
+  });
+
+  it('never takes a jar below nothing', () => {
+    const jars = payoutJars(6, 60, [adj(-40, { spend: 0, save: 0, give: 100 })], split);
+    expect(jars).toEqual({ spend: 3, save: 3, give: 0 });
+  });
+});
+
+describe('checklists', () => {
+  const list: Chore = {
+    ...chore({ type: 'daily' }), points: 4, requiresApproval: true, stepPoints: 'proportional',
+    steps: [{ id: 's1', title: '1' }, { id: 's2', title: '2' }, { id: 's3', title: '3' }, { id: 's4', title: '4' }]
+  };
+  const checked = (stepIds: string[]) =>
+    ({ id: 'x', kidId: 'k1', choreId: 'c1', dateISO: '2024-05-01', status: 'approved', points: 2, stepIds }) as const;
+
+  it('is not done until every step is ticked', () => {
+    expect(isFullyDone(list, checked(['s1', 's2']))).toBe(false);
+    expect(isFullyDone(list, checked(['s1', 's2', 's3', 's4']))).toBe(true);
+  });
+
+  it('asks again for more steps, and keeps counting the approved part meanwhile', () => {
+    const was = checked(['s1', 's2']);
+    const { status, points } = stepResult(list, 3);
+    const next = recheck(was, status, points);
+    expect(next).toEqual({ status: 'pending', approved: { points: 2, stepIds: ['s1', 's2'] } });
+    expect(earnedPoints({ ...was, status: 'pending', approved: next.approved, points })).toBe(2);
+  });
+
+  it('keeps the same approved part when finishing a checklist already waiting again', () => {
+    const waiting = { ...checked(['s1', 's2', 's3']), status: 'pending', points: 3, approved: { points: 2 } } as const;
+    expect(recheck(waiting, 'pending', 4)).toEqual({ status: 'pending', approved: { points: 2 } });
+  });
+
+  it('stays approved when unticking takes points away', () => {
+    expect(recheck(checked(['s1', 's2']), 'pending', 1)).toEqual({ status: 'approved' });
+  });
+});
@@ -1,21 +1,137 @@
 import {
-  eachDayOfInterval, endOfMonth, format, isWithinInterval,
-  startOfMonth, startOfWeek, endOfWeek
+  addDays, differenceInCalendarDays, differenceInCalendarWeeks, eachDayOfInterval,
+  endOfMonth, format, getDaysInMonth, isWithinInterval, parseISO, startOfMonth,
+  startOfWeek, endOfWeek
 } from 'date-fns'
-import { Chore, Schedule, Completion } from './types'
+import {
+  AdjustmentLog, ApprovedPart, Chore, ChoreSchedule, Completion, CompletionStatus, Goal, JarName, Jars, Kid, Redemption, Reward,
+  RoutineId, Settings, State
+} from './types'
 
 export const toISO = (d: Date) => format(d, 'yyyy-MM-dd');
 
+export const uid = () => Math.random().toString(36).slice(2, 9);
+
+// Not archived. Archived kids and chores stay in State so Reports and
+// balances still see their history.
+export const isActive = (x: { archivedISO?: string }) => !x.archivedISO;
+
+// Dates are compared as local calendar days (parseISO, not `new Date`, which
+// reads yyyy-mm-dd as UTC) so DST shifts never move a chore to another day.
 export function isChoreDueOn(chore: Chore, dateISO: string) {
-  const d = new Date(dateISO);
+  const s: ChoreSchedule = chore.schedule;
+  if (s.startISO && dateISO < s.startISO) return false;
+  if (s.endISO && dateISO > s.endISO) return false;
+  if (s.skipDates?.includes(dateISO)) return false;
+  if (chore.archivedISO && dateISO >= chore.archivedISO) return false;
+  if (chore.createdISO && dateISO < chore.createdISO) return false;
+
+  const d = parseISO(dateISO);
   const dow = d.getDay();
-  const s: Schedule = chore.schedule;
   if (s.type === 'daily') return true;
-  if (s.type === 'weekly') return s.daysOfWeek.includes(dow);
-  if (s.type === 'custom') return s.dates.includes(dateISO);
+  if (s.type === 'weekly') return (s.daysOfWeek ?? []).includes(dow);
+  if (s.type === 'custom') return (s.dates ?? []).includes(dateISO);
+  if (s.type === 'interval') return isIntervalDue(s, d);
+  if (s.type === 'monthly') return isMonthlyDue(s, d);
   return false;
 }
 
+function isIntervalDue(s: ChoreSchedule, d: Date) {
+  if (!s.anchorISO) return false;
+  const every = Math.max(1, s.every ?? 1);
+  const anchor = parseISO(s.anchorISO);
+  const days = differenceInCalendarDays(d, anchor);
+  if (days < 0) return false;
+  if (s.unit !== 'week') return days % every === 0;
+  // every N weeks: on the listed weekdays, or on the anchor's weekday
+  const dows = s.daysOfWeek?.length ? s.daysOfWeek : [anchor.getDay()];
+  if (!dows.includes(d.getDay())) return false;
+  return differenceInCalendarWeeks(d, anchor, { weekStartsOn: 0 }) % every === 0;
+}
+
+function isMonthlyDue(s: ChoreSchedule, d: Date) {
+  const last = getDaysInMonth(d);
+  if (s.dayOfMonth) return d.getDate() === Math.min(s.dayOfMonth, last);
+  if (!s.nthWeekday || d.getDay() !== s.nthWeekday.weekday) return false;
+  const { n } = s.nthWeekday;
+  if (n === -1) return d.getDate() + 7 > last;
+  return Math.ceil(d.getDate() / 7) === n;
+}
+
+// Manual order from the chore editor; unordered chores go last.
+export function byChoreOrder(a: Chore, b: Chore) {
+  return (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+}
+
+// Due dates counted so far per chore. Chores are replaced, never mutated,
+// on edit, so the cache can't go stale.
+const occurrences = new WeakMap<Chore, { nextISO: string; count: number; index: Map<string, number> }>();
+
+// 0-based index of the occurrence on `dateISO` counted from the rotation
+// start, or -1 if the chore isn't due then.
+export function occurrenceIndex(chore: Chore, dateISO: string) {
+  const startISO = chore.rotation?.startISO;
+  if (!startISO || dateISO < startISO || !isChoreDueOn(chore, dateISO)) return -1;
+  let c = occurrences.get(chore);
+  if (!c) {
+    c = { nextISO: startISO, count: 0, index: new Map() };
+    occurrences.set(chore, c);
+  }
+  while (c.nextISO <= dateISO) {
+    if (isChoreDueOn(chore, c.nextISO)) c.index.set(c.nextISO, c.count++);
+    c.nextISO = toISO(addDays(parseISO(c.nextISO), 1));
+  }
+  return c.index.get(dateISO) ?? -1;
+}
+
+// Who does a rotating chore on `dateISO` (a one-day swap wins), or null.
+// Kids archived by then sit out and the others share their turns; earlier
+// days keep the turns they had.
+export function rotationAssignee(chore: Chore, dateISO: string, kids: Kid[]) {
+  if (!chore.rotation || chore.kidIds.length === 0) return null;
+  const swap = chore.rotation.swaps?.[dateISO];
+  if (swap) return swap;
+  const i = occurrenceIndex(chore, dateISO);
+  if (i < 0) return null;
+  const gone = new Set(kids.filter(k => k.archivedISO && k.archivedISO <= dateISO).map(k => k.id));
+  const turns = chore.kidIds.filter(id => !gone.has(id));
+  return turns.length ? turns[i % turns.length] : null;
+}
+
+export function isAssignedOn(chore: Chore, kidId: string, dateISO: string, kids: Kid[]) {
+  if (chore.rotation) return rotationAssignee(chore, dateISO, kids) === kidId;
+  return chore.kidIds.includes(kidId);
+}
+
+// Chores `kidId` has to do on `dateISO`, in display order.
+export function choresDueFor(s: Pick<State, 'chores' | 'kids'>, kidId: string, dateISO: string) {
+  return s.chores
+    .filter(ch => isChoreDueOn(ch, dateISO) && isAssignedOn(ch, kidId, dateISO, s.kids))
+    .sort(byChoreOrder);
+}
+
+// Next due date on or after `fromISO` for each rotating chore, with its assignee.
+export function upNext(s: Pick<State, 'chores' | 'kids'>, fromISO: string) {
+  return s.chores
+    .filter(ch => ch.rotation)
+    .sort(byChoreOrder)
+    .map(ch => {
+      const [dateISO] = nextDueDates(ch, fromISO, 1);
+      return { chore: ch, dateISO, kidId: dateISO ? rotationAssignee(ch, dateISO, s.kids) : null };
+    });
+}
+
+// The next `count` due dates on or after `fromISO`, looking at most a year ahead.
+export function nextDueDates(chore: Chore, fromISO: string, count: number) {
+  const out: string[] = [];
+  const start = parseISO(fromISO);
+  for (let i = 0; i < 366 && out.length < count; i++) {
+    const iso = toISO(addDays(start, i));
+    if (isChoreDueOn(chore, iso)) out.push(iso);
+  }
+  return out;
+}
+
 export function monthDays(year: number, monthIndex0: number) {
   const start = startOfMonth(new Date(year, monthIndex0, 1));
   const end = endOfMonth(start);
@@ -46,20 +162,264 @@ export function monthRange(date: Date) {
   return { startISO: toISO(start), endISO: toISO(end) };
 }
 
-export function sumPoints(
-  completions: Completion[], kidId: string,
-  startISO: string, endISO: string, allChores: Chore[]
-) {
-  const start = new Date(startISO);
-  const end = new Date(endISO);
-  const set = completions.filter(c => c.kidId === kidId && c.completed);
+export function sumPoints(completions: Completion[], kidId: string, startISO: string, endISO: string) {
+  const start = parseISO(startISO);
+  const end = parseISO(endISO);
+  const set = completions.filter(c => c.kidId === kidId);
   let sum = 0;
   for (const c of set) {
-    const d = new Date(c.date);
-    if (isWithinInterval(d, { start, end })) {
-      const ch = allChores.find(x => x.id === c.choreId);
-      if (ch) sum += ch.points;
-    }
+    if (isWithinInterval(parseISO(c.dateISO), { start, end })) sum += earnedPoints(c);
+  }
+  return sum;
+}
+
+// Points a completion counts for: all of an approved one, and the approved
+// part of one waiting on a parent again.
+export function earnedPoints(c: Completion) {
+  if (c.status === 'approved') return c.points;
+  return c.status === 'pending' ? c.approved?.points ?? 0 : 0;
+}
+
+export function pointsToDollars(points: number, settings: Settings) {
+  return Math.round(points * settings.dollarsPerPoint * 100) / 100;
+}
+
+// All-time points a kid has earned and not yet been paid for.
+export function kidBalance(state: State, kidId: string) {
+  let sum = 0;
+  for (const c of state.completions) {
+    if (c.kidId === kidId) sum += earnedPoints(c);
+  }
+  for (const a of state.adjustments) if (a.kidId === kidId) sum += a.delta;
+  for (const b of state.bonuses) if (b.kidId === kidId) sum += b.points;
+  for (const p of state.payouts) if (p.kidId === kidId) sum -= p.points;
+  for (const r of state.redemptions) {
+    if (r.kidId === kidId && r.status !== 'rejected') sum -= r.cost;
+  }
+  return sum;
+}
+
+// ------------ Checklists ------------
+
+// Ids of `chore`'s steps ticked in `completion`, in step order. A check from
+// before the chore had steps counts as all of them; removed steps drop out.
+export function stepsDone(chore: Chore, completion: Completion | undefined) {
+  const steps = chore.steps ?? [];
+  if (!completion || completion.status === 'rejected') return [];
+  if (!completion.stepIds) return completion.status === 'started' ? [] : steps.map(s => s.id);
+  const ticked = new Set(completion.stepIds);
+  return steps.filter(s => ticked.has(s.id)).map(s => s.id);
+}
+
+// Checked off with every step ticked. A proportional checklist earns points
+// for some steps but isn't done until all are. Pending counts; callers that
+// want approved only check the status too.
+export function isFullyDone(chore: Chore | undefined, completion: Completion | undefined) {
+  if (completion?.status !== 'approved' && completion?.status !== 'pending') return false;
+  return !chore || stepsDone(chore, completion).length === (chore.steps?.length ?? 0);
+}
+
+// Status and points for `chore` with `ticked` of its steps done. null = no
+// completion at all.
+export function stepResult(chore: Chore, ticked: number): { status: CompletionStatus | null; points: number } {
+  const total = chore.steps?.length ?? 0;
+  const counted = chore.requiresApproval ? 'pending' : 'approved';
+  if (ticked === 0) return { status: null, points: 0 };
+  if (ticked >= total) return { status: counted, points: chore.points };
+  if (chore.stepPoints === 'proportional') {
+    return { status: counted, points: Math.round((chore.points * ticked) / total) };
+  }
+  return { status: 'started', points: chore.points };
+}
+
+// A new check that needs approval, worth `points`, on a checklist a parent
+// already approved part of (`was`). Worth more, it waits on them with the
+// approved part still counting (see earnedPoints); worth the same or less,
+// it stays approved.
+export function recheck(
+  was: Completion | undefined, status: CompletionStatus | null, points: number
+): { status: CompletionStatus | null; approved?: ApprovedPart } {
+  const part = was?.status === 'approved' ? { points: was.points, stepIds: was.stepIds }
+    : was?.status === 'pending' ? was.approved
+    : undefined;
+  if (status !== 'pending' || !part) return { status };
+  return points <= part.points ? { status: 'approved' } : { status, approved: part };
+}
+
+// ------------ Routines and due times ------------
+
+export const ROUTINES: { id: RoutineId; label: string; icon: string }[] = [
+  { id: 'morning', label: 'Morning', icon: '🌅' },
+  { id: 'afterSchool', label: 'After school', icon: '🎒' },
+  { id: 'bedtime', label: 'Bedtime', icon: '🌙' },
+];
+
+// When `chore` is due on `dateISO`, local time; null if it has no due time.
+export function dueAt(chore: Chore, dateISO: string) {
+  if (!chore.dueTime) return null;
+  const [h, m] = chore.dueTime.split(':').map(Number);
+  const d = parseISO(dateISO);
+  d.setHours(h, m, 0, 0);
+  return d;
+}
+
+// Past the due time plus grace. Any earlier day with a due time counts too,
+// and so does a carried-over chore done on a later day.
+export function isLate(chore: Chore, dateISO: string, settings: Settings, now = new Date()) {
+  if (chore.carryOverISO && dateISO < toISO(now)) return true;
+  const due = dueAt(chore, dateISO);
+  return !!due && now.getTime() > due.getTime() + settings.lateRule.graceMinutes * 60000;
+}
+
+export function latePoints(points: number, settings: Settings) {
+  return Math.round((points * Math.min(100, Math.max(0, settings.lateRule.percent))) / 100);
+}
+
+// Due-time order (chores without one last), keeping the manual order otherwise.
+export function byDueTime(a: Chore, b: Chore) {
+  return (a.dueTime ?? '99:99').localeCompare(b.dueTime ?? '99:99');
+}
+
+// ------------ Jars ------------
+
+export const JAR_NAMES: JarName[] = ['spend', 'save', 'give'];
+
+export const DEFAULT_SPLIT: Jars = { spend: 100, save: 0, give: 0 };
+
+export const kidSplit = (kid: Kid | undefined) => kid?.jars ?? DEFAULT_SPLIT;
+
+// Split dollars by percentages, to the cent. Rounding leftovers go to the
+// first jar with a share so the parts always add back up to `amount`.
+export function splitAmount(amount: number, split: Jars): Jars {
+  const cents = Math.round(amount * 100);
+  const total = JAR_NAMES.reduce((n, j) => n + split[j], 0) || 100;
+  const out: Jars = { spend: 0, save: 0, give: 0 };
+  let left = cents;
+  for (const j of JAR_NAMES) {
+    out[j] = Math.floor((cents * split[j]) / total);
+    left -= out[j];
+  }
+  out[JAR_NAMES.find(j => split[j] > 0) ?? 'spend'] += left;
+  for (const j of JAR_NAMES) out[j] /= 100;
+  return out;
+}
+
+// Dollars per jar for a payout of `points` worth `amount`. The point
+// adjustments it covers go by the split recorded on each, the rest by `split`.
+export function payoutJars(amount: number, points: number, adjustments: AdjustmentLog[], split: Jars): Jars {
+  const weight: Jars = { spend: 0, save: 0, give: 0 };
+  let rest = points;
+  for (const a of adjustments) {
+    if (!a.jars) continue;
+    for (const j of JAR_NAMES) weight[j] += (a.delta * a.jars[j]) / 100;
+    rest -= a.delta;
+  }
+  // a deduction made under another split can't take a jar below nothing
+  for (const j of JAR_NAMES) weight[j] = Math.max(0, weight[j] + (rest * split[j]) / 100);
+  return splitAmount(amount, JAR_NAMES.some(j => weight[j] > 0) ? weight : split);
+}
+
+// Dollars in each of a kid's jars, from payouts and parent entries dated
+// (by timestamp) within the optional window.
+export function jarBalances(state: State, kidId: string, startISO = '', endISO = '9999'): Jars {
+  const out: Jars = { spend: 0, save: 0, give: 0 };
+  const inWindow = (ts: string) => {
+    const day = toISO(new Date(ts));
+    return day >= startISO && day <= endISO;
+  };
+  const add = (jars: Jars) => {
+    for (const j of JAR_NAMES) out[j] += jars[j] ?? 0;
+  };
+  for (const p of state.payouts) if (p.kidId === kidId && inWindow(p.timestampISO)) add(p.jars);
+  for (const e of state.jarEntries) if (e.kidId === kidId && inWindow(e.timestampISO)) add(e.amounts);
+  for (const j of JAR_NAMES) out[j] = Math.round(out[j] * 100) / 100;
+  return out;
+}
+
+// ------------ Savings goals ------------
+
+const PACE_DAYS = 14;
+
+export function goalTargetPoints(goal: Goal, settings: Settings) {
+  if (goal.unit === 'points') return goal.target;
+  return settings.dollarsPerPoint > 0 ? Math.ceil(goal.target / settings.dollarsPerPoint) : Infinity;
+}
+
+// Approved chore points plus streak bonuses dated within [fromISO, toISO].
+function earnedBetween(state: State, kidId: string, fromISO: string, toISO: string) {
+  let sum = 0;
+  for (const c of state.completions) {
+    if (c.kidId === kidId && c.dateISO >= fromISO && c.dateISO <= toISO) sum += earnedPoints(c);
+  }
+  for (const b of state.bonuses) {
+    if (b.kidId === kidId && b.dateISO >= fromISO && b.dateISO <= toISO) sum += b.points;
   }
   return sum;
 }
+
+export interface GoalProgress {
+  saved: number;           // points counted toward the goal
+  target: number;          // points
+  reached: boolean;
+  projectedISO: string | null; // at the recent pace; null if reached or no pace
+}
+
+// A goal with an allocation saves that share of everything earned since it
+// was set; one without counts the kid's whole balance. Either way it can't
+// hold more than the kid actually has.
+export function goalProgress(state: State, goal: Goal, todayISO = toISO(new Date())): GoalProgress {
+  const target = goalTargetPoints(goal, state.settings);
+  const balance = Math.max(0, kidBalance(state, goal.kidId));
+  const share = goal.allocatePercent ? goal.allocatePercent / 100 : 1;
+  const pool = goal.allocatePercent
+    ? Math.floor(earnedBetween(state, goal.kidId, goal.createdISO, todayISO) * share)
+    : balance;
+  const saved = Math.min(pool, balance, target);
+  const reached = saved >= target;
+
+  const paceFrom = toISO(addDays(parseISO(todayISO), 1 - PACE_DAYS));
+  const perDay = (earnedBetween(state, goal.kidId, paceFrom, todayISO) * share) / PACE_DAYS;
+  const projectedISO = reached || perDay <= 0 || !Number.isFinite(target)
+    ? null
+    : toISO(addDays(parseISO(todayISO), Math.ceil((target - saved) / perDay)));
+  return { saved, target, reached, projectedISO };
+}
+
+// Points set aside by allocating goals, so they can't be spent on rewards.
+export function reservedForGoals(state: State, kidId: string) {
+  let sum = 0;
+  for (const g of state.goals) {
+    if (g.kidId === kidId && g.allocatePercent) sum += goalProgress(state, g).saved;
+  }
+  return Math.min(sum, Math.max(0, kidBalance(state, kidId)));
+}
+
+// A request holds one unit of its reward's stock until it's rejected.
+export const heldUnits = (redemptions: Redemption[], rewardId: string) =>
+  redemptions.filter(r => r.rewardId === rewardId && r.status !== 'rejected').length;
+
+// Units of `reward` left, or undefined for unlimited. Derived rather than
+// counted down, so it comes out the same whatever order ops arrive in.
+export function stockLeft(redemptions: Redemption[], reward: Reward) {
+  if (reward.stock === undefined) return undefined;
+  return Math.max(0, reward.stock - heldUnits(redemptions, reward.id));
+}
+
+// Why `kidId` can't redeem `reward` right now, or null if they can.
+export function redeemBlocker(state: State, kidId: string, reward: Reward, now = new Date()) {
+  const reserved = reservedForGoals(state, kidId);
+  if (kidBalance(state, kidId) - reserved < reward.cost) {
+    return reserved > 0 ? 'Not enough points (some are saved for a goal)' : 'Not enough points';
+  }
+  if (stockLeft(state.redemptions, reward) === 0) return 'Out of stock';
+  if (reward.weeklyLimit !== undefined) {
+    const { startISO, endISO } = weekRange(now);
+    const used = state.redemptions.filter(r => {
+      const day = toISO(new Date(r.timestampISO));
+      return r.kidId === kidId && r.rewardId === reward.id && r.status !== 'rejected' &&
+        day >= startISO && day <= endISO;
+    }).length;
+    if (used >= reward.weeklyLimit) return 'Weekly limit reached';
+  }
+  return null;
+}
@@ -1,6 +1,10 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // a zone with DST, so date math is tested across the clock changes
+    env: { TZ: 'America/New_York' },
+  },
 })